@@ -1,47 +1,193 @@
 import readFunctionParams from '@captemulation/get-parameter-names';
 import { dummyLogger, Logger } from '../types/logging';
-import { PrometheusClient, TTL } from '../types';
+import CacheMetrics from './metrics';
+import CacheEvents from './events';
+import {
+    CacheEntry,
+    CachewiseTTL,
+    ClearOptions,
+    CreateCacheOptions,
+    PrometheusClient,
+    TTL,
+    TTLJitter,
+} from '../types';
 
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * An entry read from a layer, along with its remaining TTL in milliseconds
+ * (negative if it doesn't expire)
+ */
+export type EntryWithTTL<Value = any> = {
+    entry: CacheEntry<Value> | null,
+    ttl?: number,
+};
+
+/**
+ * A storage tier of the cache, like the in-memory cache or redis.
+ * Keys are passed as lists of key components, and every method may either return its result
+ * directly or a promise of it.
+ * Optional methods back features that not every tier can support
+ */
+export interface StorageAdapter<Value = any> {
+    /**
+     * Identifies the layer in per-layer TTLs (see `CachewiseTTL`)
+     */
+    readonly name: string;
+    /**
+     * Whether the layer is shared by every instance of the cache, like redis.
+     * Operations on shared layers go through the circuit breaker, while broadcast invalidations
+     * are only applied to layers that aren't shared
+     */
+    readonly shared?: boolean;
+    get(_keys: string[]): MaybePromise<CacheEntry<Value> | null>;
+    set(_keys: string[], _entry: CacheEntry<Value>, _ttl: TTL): MaybePromise<void>;
+    del(_keys: string[]): MaybePromise<void>;
+    batchGet(_keys: string[][]): MaybePromise<(CacheEntry<Value> | null)[]>;
+    batchSet(_keys: string[][], _entries: CacheEntry<Value>[], _ttls: TTL[]): MaybePromise<void>;
+    batchDel(_keys: string[][]): MaybePromise<void>;
+    /**
+     * Deletes every value under the namespace
+     * @returns The number of keys deleted
+     */
+    clear(_options?: ClearOptions): MaybePromise<number>;
+    /**
+     * Reads entries along with their remaining TTLs. Values backfilled from layers
+     * that don't support this are kept in the layers above for their full backfill TTL
+     */
+    batchGetWithTTL?(_keys: string[][]): MaybePromise<EntryWithTTL<Value>[]>;
+    /**
+     * Resets the expiry of entries, if present. Required for sliding expiration
+     * @param _ttls Time from now (in milliseconds) after which each entry expires
+     */
+    touch?(_keys: string[][], _ttls: number[]): MaybePromise<void>;
+    /**
+     * Deletes all keys matching a glob-style pattern for each component of the key
+     * @returns The number of keys deleted
+     */
+    delWhere?(_pattern: string[]): MaybePromise<number>;
+    invalidateTags?(_tags: string[]): MaybePromise<void>;
+    /**
+     * Attempts to acquire a lock on a key, shared by every instance of the cache
+     * @returns A token identifying the lock holder if the lock was acquired, `null` otherwise
+     */
+    acquireLock?(_keys: string[], _ttl: TTL): Promise<string | null>;
+    releaseLock?(_keys: string[], _token: string): Promise<void>;
+    /**
+     * Stops any background work done by the layer
+     */
+    close?(): MaybePromise<void>;
+}
+
+export type LayerContext = {
+    /**
+     * Namespace of the cache, which keys should be scoped to
+     */
+    namespace: string,
+    options: CreateCacheOptions<any>,
+    logger: Logger,
+    /**
+     * Lifecycle events of the cache. Layers emit events about the keys they hold
+     * (`hit`, `miss`, `set`, `delete`, `expire`, `evict`)
+     */
+    events: CacheEvents,
+    /**
+     * Bound of in-memory layers configured with neither `maxEntries` nor `maxSize`, if any
+     */
+    defaultMaxEntries?: number,
+};
+
+/**
+ * Creates a layer for a cache, see `CreateCacheOptions.layers`
+ */
+export type LayerFactory<Value = any> = (_context: LayerContext) => StorageAdapter<Value>;
+
+export const ttlToMilliseconds = (ttl: TTL, namespace?: string) => {
+    if (typeof ttl === 'number') {
+        return ttl;
+    }
+    const { value, unit } = ttl;
+    switch (unit) {
+    case 'milliseconds': {
+        return value;
+    }
+    case 'seconds': {
+        return value * 1000;
+    }
+    case 'minutes': {
+        return value * 1000 * 60;
+    }
+    case 'hours': {
+        return value * 1000 * 60 * 60;
+    }
+    case 'days': {
+        return value * 1000 * 60 * 60 * 24;
+    }
+    default: {
+        throw new Error(`[SugarCache]:${namespace} Incorrect TTL unit provided to constructor`);
+    }
+    }
+};
+
+export const isCachewiseTTL = (ttl: TTL | CachewiseTTL): ttl is CachewiseTTL => (
+    typeof ttl === 'object' && !('unit' in ttl)
+);
+
+/**
+ * @returns The TTL of a value on a layer, `undefined` if the value shouldn't be written to it
+ */
+export const ttlForLayer = (ttl: TTL | CachewiseTTL, layer: string): TTL | undefined => (
+    isCachewiseTTL(ttl) ? ttl[layer] : ttl
+);
+
+/**
+ * Base class of the built-in layers
+ */
 export default abstract class Cache {
     protected namespace: string;
 
     protected readonly logger: Logger;
 
-    protected prometheus: PrometheusClient;
+    protected metrics?: CacheMetrics;
+
+    protected events?: CacheEvents;
+
+    protected jitter?: TTLJitter;
 
-    constructor(namespace: string, prometheus?: PrometheusClient, logger: Logger = dummyLogger) {
+    constructor(
+        namespace: string,
+        prometheus?: PrometheusClient,
+        logger?: Logger,
+        events?: CacheEvents,
+    ) {
         this.namespace = namespace;
-        this.logger = logger;
-        this.prometheus = prometheus;
+        this.logger = logger ?? dummyLogger;
+        this.events = events;
+        if (prometheus) {
+            this.metrics = new CacheMetrics(prometheus, namespace);
+        }
     }
 
     protected transformIntoCacheKey = (key: string) => `${this.namespace}:${key}`;
 
+    protected transformFromCacheKey = (cacheKey: string) => cacheKey.slice(
+        this.namespace.length + 1,
+    );
+
+    /**
+     * Converts the TTL of a value to milliseconds, adding a random amount of jitter if configured.
+     * Durations that aren't value TTLs (locks, intervals) should use `ttlToMilliseconds` instead
+     */
     protected computeTTLInMilliseconds = (ttl: TTL) => {
-        if (typeof ttl === 'number') {
-            return ttl;
-        }
-        const { value, unit } = ttl;
-        switch (unit) {
-        case 'milliseconds': {
-            return value;
-        }
-        case 'seconds': {
-            return value * 1000;
-        }
-        case 'minutes': {
-            return value * 1000 * 60;
-        }
-        case 'hours': {
-            return value * 1000 * 60 * 60;
-        }
-        case 'days': {
-            return value * 1000 * 60 * 60 * 24;
-        }
-        default: {
-            throw new Error(`[SugarCache]:${this.namespace} Incorrect TTL unit provided to constructor`);
-        }
+        const ttlInMilliseconds = ttlToMilliseconds(ttl, this.namespace);
+        if (!this.jitter) {
+            return ttlInMilliseconds;
         }
+
+        const maxJitter = this.jitter.type === 'percentage'
+            ? ttlInMilliseconds * this.jitter.value
+            : ttlToMilliseconds(this.jitter.value, this.namespace);
+        return Math.round(ttlInMilliseconds + Math.random() * maxJitter);
     };
 
     protected validateKeys = (targetFn: any, cacheKeys: string[]) => {
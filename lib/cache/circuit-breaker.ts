@@ -0,0 +1,124 @@
+import { CircuitBreakerOptions } from '../types';
+import { dummyLogger, Logger } from '../types/logging';
+import { ttlToMilliseconds } from './base';
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Stops sending operations to a failing dependency for a while, so that callers fail fast
+ * instead of piling up on it.
+ *
+ * The circuit opens after `failureThreshold` consecutive failures. Once `resetTimeout` has
+ * elapsed, a single probe operation is let through (half-open) - the circuit closes if it
+ * succeeds, and opens again if it fails.
+ */
+export default class CircuitBreaker {
+    private namespace: string;
+
+    private logger: Logger;
+
+    private failureThreshold: number;
+
+    private resetTimeout: number;
+
+    private operationTimeout?: number;
+
+    private state: CircuitState = 'closed';
+
+    private consecutiveFailures = 0;
+
+    private openedAt = 0;
+
+    private probeInFlight = false;
+
+    constructor(
+        namespace: string,
+        options: CircuitBreakerOptions = {},
+        logger: Logger = dummyLogger,
+    ) {
+        this.namespace = namespace;
+        this.logger = logger;
+        this.failureThreshold = options.failureThreshold ?? 5;
+        this.resetTimeout = ttlToMilliseconds(
+            options.resetTimeout ?? { value: 10, unit: 'seconds' },
+            namespace,
+        );
+        if (options.operationTimeout !== undefined) {
+            this.operationTimeout = ttlToMilliseconds(options.operationTimeout, namespace);
+        }
+    }
+
+    private withTimeout = async <T>(operation: () => Promise<T>): Promise<T> => {
+        if (this.operationTimeout === undefined) {
+            return operation();
+        }
+
+        let timer: NodeJS.Timeout;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(
+                () => reject(new Error(`[SugarCache:${this.namespace}] Redis operation timed out after ${this.operationTimeout}ms`)),
+                this.operationTimeout,
+            );
+        });
+        try {
+            return await Promise.race([operation(), timeout]);
+        } finally {
+            clearTimeout(timer);
+        }
+    };
+
+    private onSuccess = () => {
+        if (this.state !== 'closed') {
+            this.logger.info(`[SugarCache:${this.namespace}] Circuit closed`);
+        }
+        this.state = 'closed';
+        this.consecutiveFailures = 0;
+    };
+
+    private onFailure = () => {
+        this.consecutiveFailures += 1;
+        if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+            if (this.state !== 'open') {
+                this.logger.warn(`[SugarCache:${this.namespace}] Circuit opened after ${this.consecutiveFailures} consecutive failures`);
+            }
+            this.state = 'open';
+            this.openedAt = Date.now();
+        }
+    };
+
+    /**
+     * Runs an operation through the breaker
+     * @param options.timeout Whether `operationTimeout` applies to the operation.
+     * Disable this for operations that are expected to take long, like scans
+     * @throws If the circuit is open, or the operation fails or times out
+     */
+    public execute = async <T>(
+        operation: () => Promise<T>,
+        options: { timeout?: boolean } = {},
+    ): Promise<T> => {
+        const { timeout = true } = options;
+        if (this.state === 'open' && Date.now() - this.openedAt >= this.resetTimeout) {
+            this.state = 'half-open';
+        }
+        if (this.state === 'open' || (this.state === 'half-open' && this.probeInFlight)) {
+            throw new Error(`[SugarCache:${this.namespace}] Circuit is open, redis is unavailable`);
+        }
+
+        const isProbe = this.state === 'half-open';
+        if (isProbe) {
+            this.probeInFlight = true;
+        }
+        try {
+            const result = await (timeout ? this.withTimeout(operation) : operation());
+            this.onSuccess();
+            return result;
+        } catch (err) {
+            this.onFailure();
+            throw err;
+        } finally {
+            if (isProbe) {
+                this.probeInFlight = false;
+            }
+        }
+    };
+}
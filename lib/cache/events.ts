@@ -0,0 +1,58 @@
+import { CacheEventHandler, CacheEventMap, CacheEventName } from '../types';
+import { Logger } from '../types/logging';
+
+/**
+ * Dispatches lifecycle events of a cache to the handlers registered for them.
+ *
+ * Handlers are called synchronously but never awaited, and errors they throw (or reject with)
+ * are logged rather than propagated, so handlers can't fail or hold up cache operations
+ */
+export default class CacheEvents {
+    private namespace: string;
+
+    private logger: Logger;
+
+    private handlers = new Map<CacheEventName, Set<CacheEventHandler<any>>>();
+
+    constructor(namespace: string, logger: Logger) {
+        this.namespace = namespace;
+        this.logger = logger;
+    }
+
+    private onHandlerError = (name: CacheEventName) => (err: unknown) => {
+        this.logger.warn(`[SugarCache:${this.namespace}] Handler for ${name} events failed - ${err}`);
+    };
+
+    public on = <Name extends CacheEventName>(name: Name, handler: CacheEventHandler<Name>) => {
+        if (!this.handlers.has(name)) {
+            this.handlers.set(name, new Set());
+        }
+        this.handlers.get(name).add(handler);
+    };
+
+    public off = <Name extends CacheEventName>(name: Name, handler: CacheEventHandler<Name>) => {
+        this.handlers.get(name)?.delete(handler);
+    };
+
+    /**
+     * @param event The event, scoped to the namespace of the cache
+     */
+    public emit = <Name extends CacheEventName>(
+        name: Name,
+        event: Omit<CacheEventMap[Name], 'namespace'>,
+    ) => {
+        const handlers = this.handlers.get(name);
+        if (!handlers?.size) {
+            return;
+        }
+
+        const payload = { ...event, namespace: this.namespace } as CacheEventMap[Name];
+        handlers.forEach((handler) => {
+            try {
+                Promise.resolve(handler(payload)).catch(this.onHandlerError(name));
+            } catch (err) {
+                this.onHandlerError(name)(err);
+            }
+        });
+    };
+}
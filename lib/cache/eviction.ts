@@ -0,0 +1,356 @@
+/* eslint-disable max-classes-per-file, no-bitwise */
+import { EvictionPolicyName } from '../types';
+
+/**
+ * Decides which entries are evicted from a bounded in-memory cache.
+ * Policies only track keys, values and sizes are owned by the cache
+ */
+export interface EvictionPolicy {
+    /**
+     * Records a new key being inserted
+     */
+    onInsert(_key: string): void;
+    /**
+     * Records a read or overwrite of a key that's already present
+     */
+    onAccess(_key: string): void;
+    /**
+     * Records a key being removed for reasons other than eviction (expiry, deletion)
+     */
+    onRemove(_key: string): void;
+    /**
+     * Picks the next key to be evicted and stops tracking it
+     * @returns `undefined` if no keys are being tracked
+     */
+    evict(): string | undefined;
+    /**
+     * Stops tracking all keys
+     */
+    clear(): void;
+}
+
+/**
+ * Evicts the least recently used key.
+ * Relies on `Map` preserving insertion order, so the first key is always the oldest
+ */
+export class LRUPolicy implements EvictionPolicy {
+    private keys = new Map<string, true>();
+
+    public onInsert = (key: string) => {
+        this.keys.set(key, true);
+    };
+
+    public onAccess = (key: string) => {
+        if (this.keys.delete(key)) {
+            this.keys.set(key, true);
+        }
+    };
+
+    public onRemove = (key: string) => {
+        this.keys.delete(key);
+    };
+
+    public evict = () => {
+        const [victim] = this.keys.keys();
+        if (victim !== undefined) {
+            this.keys.delete(victim);
+        }
+        return victim;
+    };
+
+    public clear = () => this.keys.clear();
+
+    public get size() {
+        return this.keys.size;
+    }
+
+    public peekOldest = () => {
+        const [oldest] = this.keys.keys();
+        return oldest;
+    };
+
+    public has = (key: string) => this.keys.has(key);
+}
+
+/**
+ * Evicts the least frequently used key, breaking ties by recency.
+ * The key inserted last is only evicted when it is the only key left, since it would otherwise
+ * always be the least frequently used one and be evicted straight away
+ */
+export class LFUPolicy implements EvictionPolicy {
+    private frequencies = new Map<string, number>();
+
+    // NOTE: Sets preserve insertion order, so within a bucket the first key is the least recent
+    private buckets = new Map<number, Set<string>>();
+
+    private minFrequency = 0;
+
+    private newest?: string;
+
+    private addToBucket = (key: string, frequency: number) => {
+        if (!this.buckets.has(frequency)) {
+            this.buckets.set(frequency, new Set());
+        }
+        this.buckets.get(frequency).add(key);
+        this.frequencies.set(key, frequency);
+    };
+
+    private removeFromBucket = (key: string, frequency: number) => {
+        const bucket = this.buckets.get(frequency);
+        bucket?.delete(key);
+        if (bucket && !bucket.size) {
+            this.buckets.delete(frequency);
+        }
+    };
+
+    public onInsert = (key: string) => {
+        this.addToBucket(key, 1);
+        this.minFrequency = 1;
+        this.newest = key;
+    };
+
+    public onAccess = (key: string) => {
+        const frequency = this.frequencies.get(key);
+        if (frequency === undefined) return;
+
+        this.removeFromBucket(key, frequency);
+        this.addToBucket(key, frequency + 1);
+        if (this.minFrequency === frequency && !this.buckets.has(frequency)) {
+            this.minFrequency = frequency + 1;
+        }
+    };
+
+    public onRemove = (key: string) => {
+        const frequency = this.frequencies.get(key);
+        if (frequency === undefined) return;
+
+        this.removeFromBucket(key, frequency);
+        this.frequencies.delete(key);
+        if (this.newest === key) {
+            this.newest = undefined;
+        }
+    };
+
+    // Least recent key of the least frequent bucket holding keys other than the newest one
+    private findVictim = () => {
+        const [first, second] = this.buckets.get(this.minFrequency);
+        if (first !== this.newest) return first;
+        if (second !== undefined) return second;
+
+        const [nextFrequency] = [...this.buckets.keys()]
+            .filter((frequency) => frequency !== this.minFrequency)
+            .sort((a, b) => a - b);
+        if (nextFrequency === undefined) return this.newest;
+
+        const [victim] = this.buckets.get(nextFrequency);
+        return victim;
+    };
+
+    public evict = () => {
+        if (!this.frequencies.size) {
+            return undefined;
+        }
+        if (!this.buckets.has(this.minFrequency)) {
+            // Removals can leave the minimum frequency stale
+            this.minFrequency = Math.min(...this.buckets.keys());
+        }
+
+        const victim = this.findVictim();
+        this.onRemove(victim);
+        return victim;
+    };
+
+    public clear = () => {
+        this.frequencies.clear();
+        this.buckets.clear();
+        this.minFrequency = 0;
+        this.newest = undefined;
+    };
+}
+
+/**
+ * Approximate frequency counter with 4-bit counters that are periodically halved,
+ * so that the recorded popularity of keys decays over time
+ */
+class CountMinSketch {
+    private static DEPTH = 4;
+
+    private static MAX_COUNT = 15;
+
+    private table: Uint8Array;
+
+    private width: number;
+
+    private additions = 0;
+
+    private resetThreshold: number;
+
+    constructor(width: number) {
+        // Width is kept a power of 2 so that indexes can be computed with a mask
+        this.width = 2 ** Math.ceil(Math.log2(Math.max(width, 16)));
+        this.table = new Uint8Array(this.width * CountMinSketch.DEPTH);
+        this.resetThreshold = this.width * 10;
+    }
+
+    private indexes = (key: string) => {
+        // FNV-1a, reseeded per row
+        const out: number[] = [];
+        for (let row = 0; row < CountMinSketch.DEPTH; row += 1) {
+            let hash = (2166136261 ^ (row * 0x9e3779b9)) >>> 0;
+            for (let i = 0; i < key.length; i += 1) {
+                hash ^= key.charCodeAt(i);
+                hash = Math.imul(hash, 16777619) >>> 0;
+            }
+            out.push(row * this.width + (hash & (this.width - 1)));
+        }
+        return out;
+    };
+
+    public increment = (key: string) => {
+        this.indexes(key).forEach((idx) => {
+            if (this.table[idx] < CountMinSketch.MAX_COUNT) {
+                this.table[idx] += 1;
+            }
+        });
+
+        this.additions += 1;
+        if (this.additions >= this.resetThreshold) {
+            this.table.forEach((count, idx) => {
+                this.table[idx] = count >> 1;
+            });
+            this.additions = Math.floor(this.additions / 2);
+        }
+    };
+
+    public estimate = (key: string) => Math.min(
+        ...this.indexes(key).map((idx) => this.table[idx]),
+    );
+
+    public clear = () => {
+        this.table.fill(0);
+        this.additions = 0;
+    };
+}
+
+/**
+ * Window TinyLFU (https://arxiv.org/abs/1512.00727).
+ * New keys enter a small LRU window and overflow into a segmented LRU (probation + protected).
+ * Under pressure, a key that just overflowed the window is only kept if it is estimated to be
+ * used more frequently than the key it would replace, which keeps one-off reads from flushing out
+ * popular keys.
+ */
+export class TinyLFUPolicy implements EvictionPolicy {
+    private static WINDOW_RATIO = 0.01;
+
+    private static PROTECTED_RATIO = 0.8;
+
+    private window = new LRUPolicy();
+
+    private probation = new LRUPolicy();
+
+    private protected = new LRUPolicy();
+
+    private sketch: CountMinSketch;
+
+    // Key that most recently overflowed from the window into probation
+    private candidate?: string;
+
+    /**
+     * @param capacityHint Expected number of entries, used to size the frequency sketch
+     */
+    constructor(capacityHint = 1024) {
+        this.sketch = new CountMinSketch(capacityHint);
+    }
+
+    private get windowLimit() {
+        const totalSize = this.window.size + this.probation.size + this.protected.size;
+        return Math.max(1, Math.floor(totalSize * TinyLFUPolicy.WINDOW_RATIO));
+    }
+
+    private get protectedLimit() {
+        const mainSize = this.probation.size + this.protected.size;
+        return Math.max(1, Math.floor(mainSize * TinyLFUPolicy.PROTECTED_RATIO));
+    }
+
+    public onInsert = (key: string) => {
+        this.sketch.increment(key);
+        this.window.onInsert(key);
+
+        this.candidate = undefined;
+        while (this.window.size > this.windowLimit) {
+            this.candidate = this.window.evict();
+            this.probation.onInsert(this.candidate);
+        }
+    };
+
+    public onAccess = (key: string) => {
+        this.sketch.increment(key);
+
+        if (this.window.has(key)) {
+            this.window.onAccess(key);
+        } else if (this.probation.has(key)) {
+            // Keys read while on probation are promoted
+            this.probation.onRemove(key);
+            this.protected.onInsert(key);
+            if (this.protected.size > this.protectedLimit) {
+                this.probation.onInsert(this.protected.evict());
+            }
+        } else {
+            this.protected.onAccess(key);
+        }
+    };
+
+    public onRemove = (key: string) => {
+        this.window.onRemove(key);
+        this.probation.onRemove(key);
+        this.protected.onRemove(key);
+    };
+
+    public evict = () => {
+        const { candidate } = this;
+        this.candidate = undefined;
+
+        const victim = this.probation.peekOldest();
+        if (
+            candidate !== undefined
+            && victim !== undefined
+            && candidate !== victim
+            && this.probation.has(candidate)
+            && this.sketch.estimate(candidate) <= this.sketch.estimate(victim)
+        ) {
+            // Candidate lost against the probation LRU, so it isn't admitted
+            this.probation.onRemove(candidate);
+            return candidate;
+        }
+
+        return this.probation.evict() ?? this.protected.evict() ?? this.window.evict();
+    };
+
+    public clear = () => {
+        this.window.clear();
+        this.probation.clear();
+        this.protected.clear();
+        this.sketch.clear();
+        this.candidate = undefined;
+    };
+}
+
+export const createEvictionPolicy = (
+    policy: EvictionPolicyName,
+    capacityHint?: number,
+): EvictionPolicy => {
+    switch (policy) {
+    case 'lru': {
+        return new LRUPolicy();
+    }
+    case 'lfu': {
+        return new LFUPolicy();
+    }
+    case 'tinylfu': {
+        return new TinyLFUPolicy(capacityHint);
+    }
+    default: {
+        throw new Error(`[SugarCache] Unknown eviction policy ${policy}`);
+    }
+    }
+};
@@ -0,0 +1,80 @@
+import { TTL } from '../../types';
+import { LayerFactory, ttlToMilliseconds } from '../base';
+import Keyspace from './keyspace';
+import FakeRedisLayer from './layer';
+
+/**
+ * In-process stand-in for redis, for testing applications without a redis server.
+ * Caches using layers created from the same fake share its keys, like they would share
+ * a redis server.
+ *
+ * Time on the fake only moves when `advance` is called, so values and locks expire
+ * deterministically. Only layers created from the fake follow its clock - in-memory layers
+ * still expire values in real time, so disable them (`memoryLayer({ enable: false })`) or keep
+ * their TTLs out of the way when testing expiry.
+ *
+ * Failures can be injected with `fail` and `failNext`, to test behaviour while redis
+ * is unavailable
+ */
+export default class FakeRedis {
+    private keyspace: Keyspace;
+
+    /**
+     * @param startTime Unix timestamp (in milliseconds) the fake's clock starts at.
+     * Defaults to the current time
+     */
+    constructor(startTime = Date.now()) {
+        this.keyspace = new Keyspace(startTime);
+    }
+
+    /**
+     * Current time on the fake's clock, as a unix timestamp in milliseconds
+     */
+    public now = () => this.keyspace.time;
+
+    /**
+     * Moves the fake's clock forward, expiring values and locks whose TTL elapses
+     */
+    public advance = (duration: TTL) => {
+        this.keyspace.time += ttlToMilliseconds(duration);
+    };
+
+    /**
+     * Fails every operation until `recover` is called
+     */
+    public fail = (error = new Error('[FakeRedis] Connection is closed')) => {
+        this.keyspace.failure = error;
+        this.keyspace.failuresLeft = Infinity;
+    };
+
+    /**
+     * Fails the next `count` operations. Batched operations count as a single operation
+     */
+    public failNext = (count = 1, error = new Error('[FakeRedis] Connection is closed')) => {
+        this.keyspace.failure = error;
+        this.keyspace.failuresLeft = count;
+    };
+
+    public recover = () => {
+        this.keyspace.failure = undefined;
+        this.keyspace.failuresLeft = 0;
+    };
+
+    /**
+     * Removes every key, across namespaces
+     */
+    public flush = () => {
+        this.keyspace.values.clear();
+        this.keyspace.locks.clear();
+        this.keyspace.tags.clear();
+    };
+
+    /**
+     * Creates a layer storing values on the fake, in place of `redisLayer`.
+     * Values are encoded with the cache's serializer and compression, like they are on redis
+     * @param options.name Name of the layer in per-layer TTLs. Defaults to `redis`
+     */
+    public layer = (options: { name?: string } = {}): LayerFactory => (
+        { options: cacheOptions, logger, events },
+    ) => new FakeRedisLayer(this.keyspace, cacheOptions, logger, options.name, events);
+}
@@ -0,0 +1,50 @@
+type Expiring<T> = T & { expiresAt: number };
+
+/**
+ * Keys stored on a fake redis, along with its clock and injected failures
+ */
+export default class Keyspace {
+    public values = new Map<string, Expiring<{ data: Buffer }>>();
+
+    public locks = new Map<string, Expiring<{ token: string }>>();
+
+    public tags = new Map<string, Set<string>>();
+
+    public time: number;
+
+    public failure?: Error;
+
+    public failuresLeft = 0;
+
+    constructor(startTime: number) {
+        this.time = startTime;
+    }
+
+    private isExpired = ({ expiresAt }: { expiresAt: number }) => expiresAt <= this.time;
+
+    /**
+     * Runs a command, unless a failure was injected for it
+     */
+    public command = async <T>(execute: () => T | Promise<T>): Promise<T> => {
+        if (this.failuresLeft > 0) {
+            this.failuresLeft -= 1;
+            throw this.failure;
+        }
+        return execute();
+    };
+
+    /**
+     * Reads a live key, removing it if it has expired
+     */
+    public read = <T extends { expiresAt: number }>(
+        store: Map<string, T>,
+        key: string,
+    ): T | null => {
+        const stored = store.get(key);
+        if (stored && this.isExpired(stored)) {
+            store.delete(key);
+            return null;
+        }
+        return stored ?? null;
+    };
+}
@@ -0,0 +1,211 @@
+import { randomUUID } from 'node:crypto';
+import {
+    CacheEntry,
+    CreateCacheOptions,
+    TTL,
+} from '../../types';
+import { Logger } from '../../types/logging';
+import { KeyEventName } from '../../types/internals';
+import EntryCodec from '../../serialization/codec';
+import Cache, { StorageAdapter, ttlToMilliseconds } from '../base';
+import { escapeGlob, globToRegExp } from '../pattern';
+import CacheEvents from '../events';
+import Keyspace from './keyspace';
+
+/**
+ * Layer storing values on a fake redis, scoped to the namespace of a cache
+ */
+export default class FakeRedisLayer<Value = any> extends Cache implements StorageAdapter<Value> {
+    public readonly name: string;
+
+    public readonly shared = true;
+
+    private keyspace: Keyspace;
+
+    private codec: EntryCodec;
+
+    constructor(
+        keyspace: Keyspace,
+        options: CreateCacheOptions<any>,
+        logger?: Logger,
+        name?: string,
+        events?: CacheEvents,
+    ) {
+        const {
+            namespace,
+            prometheusClient,
+            serializer,
+            compression,
+            ttlJitter,
+        } = options;
+        super(namespace, prometheusClient, logger, events);
+        this.name = name ?? 'redis';
+        this.jitter = ttlJitter;
+        this.keyspace = keyspace;
+        this.codec = new EntryCodec(serializer, compression);
+    }
+
+    private toCacheKey = (keys: string[]) => this.transformIntoCacheKey(keys.join(':'));
+
+    private transformIntoTagKey = (tag: string) => `${this.namespace}:${tag}`;
+
+    /**
+     * Emits an event about a key, like `RedisCache` does
+     * @param details.startedAt Time (from `performance.now()`) the operation started at, if timed
+     * @param details.size Size of the encoded value in bytes, if known
+     */
+    private emit = (
+        name: KeyEventName,
+        cacheKey: string,
+        details: { startedAt?: number, size?: number } = {},
+    ) => {
+        const { startedAt, size } = details;
+        this.events?.emit(name, {
+            layer: this.name,
+            key: this.transformFromCacheKey(cacheKey),
+            ...(startedAt !== undefined ? { duration: performance.now() - startedAt } : {}),
+            ...(size !== undefined ? { size } : {}),
+        });
+    };
+
+    private readEntry = async (cacheKey: string) => {
+        const startedAt = performance.now();
+        const stored = this.keyspace.read(this.keyspace.values, cacheKey);
+        const entry = stored ? await this.codec.decode(stored.data) as CacheEntry<Value> : null;
+        this.emit(entry ? 'hit' : 'miss', cacheKey, { startedAt, size: stored?.data.byteLength });
+        return entry;
+    };
+
+    // Deletes a value, emitting an event if it was present
+    private deleteValue = (cacheKey: string) => {
+        if (this.keyspace.values.delete(cacheKey)) {
+            this.emit('delete', cacheKey);
+        }
+    };
+
+    private writeEntry = async (cacheKey: string, entry: CacheEntry<Value>, ttl: TTL) => {
+        const startedAt = performance.now();
+        const data = await this.codec.encode(entry);
+        this.metrics?.recordPayloadSize(this.name, data.byteLength);
+        this.keyspace.values.set(cacheKey, {
+            data,
+            expiresAt: this.keyspace.time + this.computeTTLInMilliseconds(ttl),
+        });
+        entry.tags?.forEach((tag) => {
+            const tagKey = this.transformIntoTagKey(tag);
+            if (!this.keyspace.tags.has(tagKey)) {
+                this.keyspace.tags.set(tagKey, new Set());
+            }
+            this.keyspace.tags.get(tagKey).add(cacheKey);
+        });
+        this.emit('set', cacheKey, { startedAt, size: data.byteLength });
+    };
+
+    public get = async (keys: string[]) => this.keyspace.command(
+        () => this.readEntry(this.toCacheKey(keys)),
+    );
+
+    public set = async (keys: string[], entry: CacheEntry<Value>, ttl: TTL) => this.keyspace
+        .command(() => this.writeEntry(this.toCacheKey(keys), entry, ttl));
+
+    public del = async (keys: string[]) => this.keyspace.command(() => {
+        this.deleteValue(this.toCacheKey(keys));
+    });
+
+    public batchGet = async (keys: string[][]) => this.keyspace.command(
+        () => Promise.all(keys.map((key) => this.readEntry(this.toCacheKey(key)))),
+    );
+
+    public batchGetWithTTL = async (keys: string[][]) => this.keyspace.command(
+        () => Promise.all(keys.map(async (key) => {
+            const cacheKey = this.toCacheKey(key);
+            const entry = await this.readEntry(cacheKey);
+            return {
+                entry,
+                ttl: entry ? this.keyspace.values.get(cacheKey).expiresAt - this.keyspace.time : -2,
+            };
+        })),
+    );
+
+    public batchSet = async (
+        keys: string[][],
+        entries: CacheEntry<Value>[],
+        ttls: TTL[],
+    ) => this.keyspace.command(async () => {
+        await Promise.all(keys.map((key, idx) => this.writeEntry(
+            this.toCacheKey(key),
+            entries[idx],
+            ttls[idx],
+        )));
+    });
+
+    public batchDel = async (keys: string[][]) => this.keyspace.command(() => {
+        keys.forEach((key) => this.deleteValue(this.toCacheKey(key)));
+    });
+
+    /**
+     * @param ttls Time from now (in milliseconds) after which each key expires
+     */
+    public touch = async (keys: string[][], ttls: number[]) => this.keyspace.command(() => {
+        keys.forEach((key, idx) => {
+            const stored = this.keyspace.read(this.keyspace.values, this.toCacheKey(key));
+            if (stored) {
+                stored.expiresAt = this.keyspace.time + ttls[idx];
+            }
+        });
+    });
+
+    /**
+     * Deletes all keys under the namespace, including locks and tags
+     * @returns The number of keys deleted
+     */
+    public clear = async () => this.keyspace.command(() => {
+        const prefix = `${this.namespace}:`;
+        const { values, locks, tags } = this.keyspace;
+
+        return [values, locks, tags].reduce((deleted, store: Map<string, unknown>) => {
+            const keys = [...store.keys()].filter((key) => key.startsWith(prefix));
+            keys.forEach((key) => store.delete(key));
+            return deleted + keys.length;
+        }, 0);
+    });
+
+    /**
+     * @param pattern Glob-style pattern for each component of the key
+     * @returns The number of keys deleted
+     */
+    public delWhere = async (pattern: string[]) => this.keyspace.command(() => {
+        const matcher = globToRegExp(`${escapeGlob(this.namespace)}:${pattern.join(':')}`);
+        const keys = [...this.keyspace.values.keys()].filter((key) => matcher.test(key));
+        keys.forEach(this.deleteValue);
+        return keys.length;
+    });
+
+    public invalidateTags = async (tags: string[]) => this.keyspace.command(() => {
+        tags.forEach((tag) => {
+            const tagKey = this.transformIntoTagKey(tag);
+            this.keyspace.tags.get(tagKey)?.forEach(this.deleteValue);
+            this.keyspace.tags.delete(tagKey);
+        });
+    });
+
+    public acquireLock = async (keys: string[], ttl: TTL) => this.keyspace.command(() => {
+        const lockKey = this.toCacheKey(keys);
+        if (this.keyspace.read(this.keyspace.locks, lockKey)) {
+            return null;
+        }
+        const token = randomUUID();
+        this.keyspace.locks.set(lockKey, {
+            token,
+            expiresAt: this.keyspace.time + ttlToMilliseconds(ttl, this.namespace),
+        });
+        return token;
+    });
+
+    public releaseLock = async (keys: string[], token: string) => this.keyspace.command(() => {
+        const lockKey = this.toCacheKey(keys);
+        if (this.keyspace.read(this.keyspace.locks, lockKey)?.token === token) {
+            this.keyspace.locks.delete(lockKey);
+        }
+    });
+}
@@ -1,80 +1,665 @@
 /* eslint-disable no-param-reassign */
 import Redis, { Cluster } from 'ioredis';
-import { CreateCacheOptions, CachewiseTTL } from '../types';
-import { Logger } from '../types/logging';
+import {
+    CacheEntry,
+    ClearOptions,
+    CreateCacheOptions,
+    CachewiseTTL,
+    InMemoryCacheStats,
+    TTL,
+} from '../types';
+import { dummyLogger, Logger } from '../types/logging';
+import {
+    BackfillTTL,
+    ReadOptions,
+    SlidingExpiration,
+    Versioning,
+} from '../types/internals';
+import {
+    EntryWithTTL,
+    LayerContext,
+    StorageAdapter,
+    ttlForLayer,
+    ttlToMilliseconds,
+} from './base';
 import InMemoryCache from './memory';
-import RedisCache from './redis';
+import { memoryLayer, redisLayer } from './layers';
+import InvalidationBus, { InvalidationMessage } from './invalidation';
+import CircuitBreaker from './circuit-breaker';
+import CacheMetrics, { CacheErrorType, CacheOperation } from './metrics';
+import CacheEvents from './events';
+import CacheTracing from './tracing';
 
-export default class MultilevelCache {
-    private redisCache: RedisCache;
+export default class MultilevelCache<Value = any> {
+    // Storage layers, fastest first
+    private layers: StorageAdapter<Value>[];
 
-    private inMemoryCache: InMemoryCache;
+    // Layer locks are held on - the first one that supports them, if any
+    private lockLayer?: StorageAdapter<Value>;
+
+    // Circuit breakers of shared layers, when configured
+    private circuitBreakers = new Map<StorageAdapter<Value>, CircuitBreaker>();
+
+    private validate?: (_value: unknown) => boolean;
+
+    private versioning?: Versioning;
+
+    private invalidationBus?: InvalidationBus;
+
+    // TTL of values backfilled into upper layers on hits from lower ones, when enabled
+    private backfillTTL?: TTL;
+
+    private slidingExpiration?: SlidingExpiration;
+
+    private failOpen: boolean;
+
+    private metrics?: CacheMetrics;
+
+    public readonly events: CacheEvents;
+
+    public readonly tracing?: CacheTracing;
+
+    private logger: Logger;
 
     public namespace: string;
 
-    constructor(options: CreateCacheOptions<any>, redis: Redis | Cluster, logger?: Logger) {
+    // Token handed out for locks that aren't held on any layer - either because none of the
+    // layers support locks, or because the lock couldn't be acquired when failing open
+    private static LOCAL_LOCK_TOKEN = 'sugar-cache:local';
+
+    // Bound of in-memory layers without `maxEntries` or `maxSize` on caches without a redis
+    // connection. Without redis to fall back on, skipping writes past
+    // `memoryThresholdPercentage` would keep them from caching anything
+    private static MEMORY_ONLY_MAX_ENTRIES = 10000;
+
+    constructor(
+        options: CreateCacheOptions<any>,
+        redis: Redis | Cluster | null,
+        logger: Logger = dummyLogger,
+    ) {
         this.namespace = `sugar-cache:${options.namespace || 'default'}`;
         options.namespace = this.namespace;
+        this.logger = logger;
+        this.failOpen = options.failOpen ?? false;
+        this.validate = options.validate;
+        this.events = new CacheEvents(this.namespace, logger);
+        if (options.tracer) {
+            this.tracing = new CacheTracing(options.tracer, this.namespace, this.events);
+        }
+        if (options.prometheusClient) {
+            this.metrics = new CacheMetrics(options.prometheusClient, this.namespace);
+        }
+        if (options.version !== undefined) {
+            this.versioning = { version: options.version, migrate: options.migrate };
+        }
+        if (options.slidingExpiration) {
+            const { ttl, maxLifetime } = options.slidingExpiration;
+            this.slidingExpiration = { ttl: () => ttl, maxLifetime };
+        }
 
-        this.redisCache = new RedisCache(redis, options, logger);
-        this.inMemoryCache = new InMemoryCache(options, logger);
+        const context: LayerContext = {
+            namespace: this.namespace,
+            options,
+            logger,
+            events: this.events,
+            defaultMaxEntries: redis ? undefined : MultilevelCache.MEMORY_ONLY_MAX_ENTRIES,
+        };
+        const defaultLayers = redis ? [memoryLayer(), redisLayer(redis)] : [memoryLayer()];
+        this.layers = (options.layers ?? defaultLayers).map((createLayer) => createLayer(context));
+        const layerNames = this.layers.map(({ name }) => name);
+        if (new Set(layerNames).size !== layerNames.length) {
+            throw new Error(`[SugarCache:${this.namespace}] Layer names must be unique, got ${JSON.stringify(layerNames)}`);
+        }
+        this.lockLayer = this.layers.find((layer) => layer.acquireLock && layer.releaseLock);
+        if (options.circuitBreaker) {
+            this.layers
+                .filter(({ shared }) => shared)
+                .forEach((layer) => this.circuitBreakers.set(layer, new CircuitBreaker(
+                    `${this.namespace}:${layer.name}`,
+                    options.circuitBreaker,
+                    logger,
+                )));
+        }
+
+        const { enable, broadcastInvalidations, backfill } = options.inMemoryCache ?? {};
+        if (enable ?? true) {
+            this.backfillTTL = backfill?.ttl;
+        }
+        if (broadcastInvalidations && !redis) {
+            logger.warn(`[SugarCache:${this.namespace}] Invalidations can't be broadcast without a redis connection`);
+        } else if (broadcastInvalidations && (enable ?? true)) {
+            this.invalidationBus = new InvalidationBus(
+                redis,
+                this.namespace,
+                this.handleInvalidation,
+                logger,
+            );
+        }
     }
 
-    public get = async (
-        keys: string[],
-    ) => (this.inMemoryCache.get(keys)) ?? (this.redisCache.get(keys));
+    /**
+     * Applies invalidations broadcast by other instances to the layers local to this instance
+     */
+    private handleInvalidation = (message: InvalidationMessage) => {
+        const invalidate = (layer: StorageAdapter<Value>) => {
+            switch (message.op) {
+            case 'del': {
+                return layer.batchDel(message.keys);
+            }
+            case 'pattern': {
+                return layer.delWhere?.(message.pattern);
+            }
+            case 'tags': {
+                return layer.invalidateTags?.(message.tags);
+            }
+            case 'clear': {
+                return layer.clear();
+            }
+            default: {
+                return undefined;
+            }
+            }
+        };
 
-    public set = async (
-        keys: string[],
-        value: any,
-        ttls: CachewiseTTL,
+        Promise.all(this.layers
+            .filter(({ shared }) => !shared)
+            .map(async (layer) => invalidate(layer)))
+            .catch((err) => this.logger.warn(`[SugarCache:${this.namespace}] Unable to apply broadcast invalidation - ${err}`));
+    };
+
+    // NOTE: `undefined` can't be represented in JSON, so it is stored as `null` across layers
+    private static createEntry = <T>(
+        value: T,
+        tags?: string[],
+        version?: number,
+    ): CacheEntry<T> => ({
+        value: value === undefined ? null : value,
+        writtenAt: Date.now(),
+        ...(tags?.length ? { tags } : {}),
+        ...(version !== undefined ? { version } : {}),
+    });
+
+    private static errorType = (err: Error): CacheErrorType => {
+        if (err?.message?.includes('Circuit is open')) {
+            return 'circuit_open';
+        }
+        if (err?.message?.includes('timed out')) {
+            return 'timeout';
+        }
+        return 'operation';
+    };
+
+    /**
+     * Runs an operation, timing and tracing it when configured
+     * @param keyCount Number of keys the operation is run on, if any
+     */
+    private instrument = <T>(
+        operation: CacheOperation,
+        keyCount: number | undefined,
+        execute: () => Promise<T>,
     ) => {
-        this.inMemoryCache.set(keys, value, ttls.memory);
-        await this.redisCache.set(keys, value, ttls.redis);
+        const timed = () => (
+            this.metrics ? this.metrics.timeOperation(operation, execute) : execute()
+        );
+        return this.tracing ? this.tracing.traceOperation(operation, keyCount, timed) : timed();
     };
 
-    public del = async (
+    /**
+     * Runs an operation on a layer, through its circuit breaker if it has one
+     * @param fallback Produces the result to use instead when failing open.
+     * Errors are always thrown if this isn't provided
+     */
+    private onLayer = async <T>(
+        layer: StorageAdapter<Value>,
+        operation: () => T | Promise<T>,
+        fallback?: () => T,
+        options?: { timeout?: boolean },
+    ): Promise<T> => {
+        const circuitBreaker = this.circuitBreakers.get(layer);
+        try {
+            return await (circuitBreaker
+                ? circuitBreaker.execute(async () => operation(), options)
+                : operation());
+        } catch (err) {
+            this.metrics?.recordError(layer.name, MultilevelCache.errorType(err));
+            this.events.emit('error', { layer: layer.name, error: err });
+            if (!this.failOpen || !fallback) {
+                throw err;
+            }
+            this.logger.warn(`[SugarCache:${this.namespace}] Operation on ${layer.name} failed, failing open - ${err}`);
+            return fallback();
+        }
+    };
+
+    /**
+     * Runs an invalidation on every layer, slowest first, so that values can't be backfilled
+     * from a layer that is yet to be invalidated
+     * @returns The result of the invalidation on each layer, slowest first
+     */
+    private invalidateLayers = async <T>(
+        operation: (_layer: StorageAdapter<Value>) => T | Promise<T>,
+        options?: { timeout?: boolean },
+    ) => [...this.layers].reverse().reduce<Promise<T[]>>(
+        async (previousResults, layer) => [
+            ...await previousResults,
+            await this.onLayer(layer, () => operation(layer), undefined, options),
+        ],
+        Promise.resolve([]),
+    );
+
+    /**
+     * Fails invalidations that some layer can't carry out before any layer is invalidated,
+     * rather than leaving stale values behind on that layer
+     */
+    private assertSupported = (method: 'delWhere' | 'invalidateTags') => {
+        const unsupportedLayer = this.layers.find((layer) => !layer[method]);
+        if (unsupportedLayer) {
+            throw new Error(`[SugarCache:${this.namespace}] Layer ${unsupportedLayer.name} does not support ${method}`);
+        }
+    };
+
+    /**
+     * Reads entries from a layer, along with their remaining TTLs if requested and supported
+     */
+    private static readLayer = async <T>(
+        layer: StorageAdapter<T>,
+        keys: string[][],
+        withTTL: boolean,
+    ): Promise<EntryWithTTL<T>[]> => {
+        if (withTTL && layer.batchGetWithTTL) {
+            return layer.batchGetWithTTL(keys);
+        }
+        const entries = keys.length === 1
+            ? [await layer.get(keys[0])]
+            : await layer.batchGet(keys);
+        return entries.map((entry) => ({ entry }));
+    };
+
+    /**
+     * Writes an entry read from a layer into the layers above it, for no longer than
+     * it has left on the layer it was read from
+     * @param remainingTTL Remaining TTL in milliseconds on the layer the entry was read from,
+     * negative if the entry has no expiry and `undefined` if it isn't known
+     */
+    private backfill = (
         keys: string[],
+        entry: CacheEntry<Value>,
+        remainingTTL: number | undefined,
+        upperLayers: StorageAdapter<Value>[],
+        backfillTTL: BackfillTTL,
     ) => {
-        await this.redisCache.del(keys);
-        this.inMemoryCache.del(keys);
+        const ttl = typeof backfillTTL === 'function' ? backfillTTL(entry.value) : backfillTTL;
+        upperLayers.forEach((layer) => {
+            const layerTTL = ttlForLayer(ttl, layer.name);
+            if (layerTTL === undefined) {
+                return;
+            }
+            const layerTTLInMilliseconds = ttlToMilliseconds(layerTTL, this.namespace);
+            const cappedTTL = remainingTTL === undefined || remainingTTL < 0
+                ? layerTTLInMilliseconds
+                : Math.min(remainingTTL, layerTTLInMilliseconds);
+            if (cappedTTL > 0) {
+                this.onLayer(layer, () => layer.set(keys, entry, cappedTTL), () => undefined)
+                    .catch((err) => this.logger.warn(`[SugarCache:${this.namespace}] Unable to backfill ${layer.name} - ${err}`));
+            }
+        });
     };
 
-    public clear = async () => Promise.all([this.redisCache.clear(), this.inMemoryCache.clear()]);
+    /**
+     * Treats entries written with a different version as misses, unless they were written with
+     * an older version and can be migrated.
+     * Entries aren't removed, since they might still be read by instances running older code
+     */
+    private applyVersioning = (
+        layer: StorageAdapter<Value>,
+        keys: string[][],
+        entries: (CacheEntry<Value> | null)[],
+        versioning: Versioning | null,
+    ) => entries.map((entry, idx) => {
+        if (!entry || !versioning) {
+            return entry;
+        }
+        const entryVersion = entry.version ?? 0;
+        if (entryVersion === versioning.version) {
+            return entry;
+        }
+        if (entryVersion > versioning.version || !versioning.migrate) {
+            return null;
+        }
 
-    public mget = async (keys: string[][]) => {
-        const inMemoryResults = keys.map(this.inMemoryCache.get);
+        try {
+            return {
+                ...entry,
+                value: versioning.migrate(entry.value, entryVersion),
+                version: versioning.version,
+            };
+        } catch (err) {
+            this.logger.warn(`[SugarCache:${this.namespace}] Unable to migrate value from version ${entryVersion} - ${err}`);
+            this.metrics?.recordError(layer.name, 'migration');
+            this.events.emit('error', { layer: layer.name, error: err, key: keys[idx].join(':') });
+            return null;
+        }
+    });
 
-        const redisQueryKeys = keys.filter((_, idx) => inMemoryResults[idx] === null);
-        const redisCacheResults = await this.redisCache.batchGet(redisQueryKeys);
+    /**
+     * Applies versioning to entries, then treats the ones failing validation as misses
+     * and removes them from every layer. Reads don't fail if removing them does
+     */
+    private validated = async (
+        layer: StorageAdapter<Value>,
+        keys: string[][],
+        versionedEntries: (CacheEntry<Value> | null)[],
+        versioning: Versioning | null,
+    ) => {
+        const entries = this.applyVersioning(layer, keys, versionedEntries, versioning);
+        if (!this.validate) {
+            return entries;
+        }
 
-        let redisIdx = 0;
-        const out: any[] = [];
-        inMemoryResults.forEach((val, i) => {
-            if (val === null && redisIdx < redisCacheResults.length) {
-                out[i] = redisCacheResults[redisIdx];
-                redisIdx += 1;
-            } else {
-                out[i] = val;
+        const invalidKeys: string[][] = [];
+        const out = entries.map((entry, idx) => {
+            if (entry && !this.validate(entry.value)) {
+                invalidKeys.push(keys[idx]);
+                return null;
             }
+            return entry;
         });
 
+        if (invalidKeys.length) {
+            this.logger.warn(`[SugarCache:${this.namespace}] Removing ${invalidKeys.length} values that failed validation`);
+            this.metrics?.recordError(layer.name, 'validation', invalidKeys.length);
+            invalidKeys.forEach((key) => this.events.emit('error', {
+                layer: layer.name,
+                error: new Error(`[SugarCache:${this.namespace}] Value failed validation`),
+                key: key.join(':'),
+            }));
+            await Promise.all(this.layers.map((target) => this.onLayer(
+                target,
+                () => target.batchDel(invalidKeys),
+            ).catch((err) => this.logger.warn(`[SugarCache:${this.namespace}] Unable to remove values that failed validation from ${target.name} - ${err}`))));
+        }
+        return out;
+    };
+
+    /**
+     * Extends the expiry of entries that were read, without exceeding their maximum lifetime.
+     * Reads don't wait for expiries to be extended
+     */
+    private slide = (
+        keys: string[][],
+        entries: (CacheEntry<Value> | null)[],
+        sliding: SlidingExpiration,
+    ) => {
+        const now = Date.now();
+        const touches = this.layers
+            .filter((layer) => layer.touch)
+            .map((layer) => ({ layer, keys: [] as string[][], ttls: [] as number[] }));
+
+        entries.forEach((entry, idx) => {
+            if (!entry) {
+                return;
+            }
+            const ttl = sliding.ttl(entry.value);
+            const remainingLifetime = sliding.maxLifetime === undefined
+                ? Infinity
+                : entry.writtenAt + ttlToMilliseconds(sliding.maxLifetime, this.namespace) - now;
+
+            touches.forEach((touch) => {
+                const layerTTL = ttlForLayer(ttl, touch.layer.name);
+                if (layerTTL === undefined) {
+                    return;
+                }
+                const cappedTTL = Math.min(
+                    ttlToMilliseconds(layerTTL, this.namespace),
+                    remainingLifetime,
+                );
+                if (cappedTTL > 0) {
+                    touch.keys.push(keys[idx]);
+                    touch.ttls.push(cappedTTL);
+                }
+            });
+        });
+
+        touches.forEach(({ layer, keys: layerKeys, ttls }) => {
+            if (!layerKeys.length) {
+                return;
+            }
+            this.onLayer(layer, () => layer.touch(layerKeys, ttls), () => undefined)
+                .catch((err) => this.logger.warn(`[SugarCache:${this.namespace}] Unable to extend expiry on ${layer.name} - ${err}`));
+        });
+    };
+
+    public get = async (
+        keys: string[],
+        options: ReadOptions = {},
+    ): Promise<CacheEntry<Value> | null> => this.instrument(
+        'get',
+        1,
+        async () => (await this.read([keys], options))[0],
+    );
+
+    /**
+     * @param ttl TTL of the value, either on every layer or on each layer by name
+     */
+    public set = async (
+        keys: string[],
+        value: Value,
+        ttl: TTL | CachewiseTTL,
+        tags?: string[],
+        version = this.versioning?.version,
+    ) => this.instrument('set', 1, async () => {
+        const entry = MultilevelCache.createEntry(value, tags, version);
+        await Promise.all(this.layers.map((layer) => {
+            const layerTTL = ttlForLayer(ttl, layer.name);
+            return layerTTL === undefined
+                ? undefined
+                : this.onLayer(layer, () => layer.set(keys, entry, layerTTL), () => undefined);
+        }));
+        await this.invalidationBus?.publish({ op: 'del', keys: [keys] });
+    });
+
+    public del = async (
+        keys: string[],
+    ) => this.instrument('del', 1, async () => {
+        await this.invalidateLayers((layer) => layer.del(keys));
+        await this.invalidationBus?.publish({ op: 'del', keys: [keys] });
+    });
+
+    /**
+     * @returns The number of keys deleted from the slowest layer
+     */
+    public clear = async (options?: ClearOptions) => this.instrument('clear', undefined, async () => {
+        try {
+            const [deleted] = await this.invalidateLayers(async (layer) => {
+                const startedAt = performance.now();
+                const count = await layer.clear(options);
+                this.events.emit('clear', {
+                    layer: layer.name,
+                    count,
+                    duration: performance.now() - startedAt,
+                });
+                return count;
+            }, { timeout: false });
+            return deleted;
+        } finally {
+            // NOTE: Published even if clearing was aborted, since some keys may have been deleted
+            await this.invalidationBus?.publish({ op: 'clear' });
+        }
+    });
+
+    /**
+     * Reads keys from each layer in turn, until every key is found or there are no layers left
+     */
+    private read = async (
+        keys: string[][],
+        options: ReadOptions,
+    ) => {
+        const {
+            backfillTTL = this.backfillTTL ?? null,
+            sliding = this.slidingExpiration ?? null,
+            versioning = this.versioning ?? null,
+        } = options;
+        const out: (CacheEntry<Value> | null)[] = keys.map(() => null);
+
+        // Reads the keys missing from the layers above, then moves on to the next layer
+        const readFrom = async (layerIdx: number, missingIdxs: number[]): Promise<void> => {
+            if (layerIdx >= this.layers.length || !missingIdxs.length) {
+                return;
+            }
+            const layer = this.layers[layerIdx];
+            const layerKeys = missingIdxs.map((idx) => keys[idx]);
+            const shouldBackfill = backfillTTL !== null && layerIdx > 0;
+
+            const results = await this.onLayer<EntryWithTTL<Value>[]>(
+                layer,
+                () => MultilevelCache.readLayer(layer, layerKeys, shouldBackfill),
+                () => layerKeys.map(() => ({ entry: null })),
+            );
+            const entries = await this.validated(
+                layer,
+                layerKeys,
+                results.map(({ entry }) => entry),
+                versioning,
+            );
+
+            const stillMissingIdxs: number[] = [];
+            entries.forEach((entry, idx) => {
+                if (!entry) {
+                    stillMissingIdxs.push(missingIdxs[idx]);
+                    return;
+                }
+                out[missingIdxs[idx]] = entry;
+                if (shouldBackfill) {
+                    this.backfill(
+                        layerKeys[idx],
+                        entry,
+                        results[idx].ttl,
+                        this.layers.slice(0, layerIdx),
+                        backfillTTL,
+                    );
+                }
+            });
+            this.metrics?.recordReads(
+                layer.name,
+                missingIdxs.length - stillMissingIdxs.length,
+                stillMissingIdxs.length,
+            );
+            this.tracing?.recordHits(layer.name, missingIdxs.length - stillMissingIdxs.length);
+            await readFrom(layerIdx + 1, stillMissingIdxs);
+        };
+        await readFrom(0, keys.map((_, idx) => idx));
+
+        if (sliding) {
+            this.slide(keys, out, sliding);
+        }
         return out;
     };
 
-    public mset = async (keys: string[][], values: any[], ttls: CachewiseTTL) => {
+    public mget = async (
+        keys: string[][],
+        options: ReadOptions = {},
+    ) => this.instrument('mget', keys.length, () => this.read(keys, options));
+
+    /**
+     * @param ttls TTLs of each value
+     */
+    public mset = async (
+        keys: string[][],
+        values: Value[],
+        ttls: (TTL | CachewiseTTL)[],
+        tags?: string[][],
+        version = this.versioning?.version,
+    ) => this.instrument('mset', keys.length, async () => {
         if (keys.length !== values.length) {
             throw new Error('Length of keys and values is not the same');
         }
 
-        keys.forEach((key, idx) => {
-            this.inMemoryCache.set(key, values[idx], ttls.memory);
-        });
-        await this.redisCache.batchSet(keys, values, ttls.redis);
+        const entries = values.map((value, idx) => MultilevelCache.createEntry(
+            value,
+            tags?.[idx],
+            version,
+        ));
+        await Promise.all(this.layers.map((layer) => {
+            const layerTTLs = ttls.map((ttl) => ttlForLayer(ttl, layer.name));
+            const layerIdxs = keys
+                .map((_, idx) => idx)
+                .filter((idx) => layerTTLs[idx] !== undefined);
+            if (!layerIdxs.length) {
+                return undefined;
+            }
+            return this.onLayer(layer, () => layer.batchSet(
+                layerIdxs.map((idx) => keys[idx]),
+                layerIdxs.map((idx) => entries[idx]),
+                layerIdxs.map((idx) => layerTTLs[idx]),
+            ), () => undefined);
+        }));
+        await this.invalidationBus?.publish({ op: 'del', keys });
+    });
+
+    public mdel = async (keys: string[][]) => this.instrument('mdel', keys.length, async () => {
+        await this.invalidateLayers((layer) => layer.batchDel(keys));
+        await this.invalidationBus?.publish({ op: 'del', keys });
+    });
+
+    /**
+     * @returns The number of keys deleted from the slowest layer
+     */
+    public delWhere = async (pattern: string[]) => {
+        this.assertSupported('delWhere');
+        const [deleted] = await this.invalidateLayers(
+            (layer) => layer.delWhere(pattern),
+            { timeout: false },
+        );
+        await this.invalidationBus?.publish({ op: 'pattern', pattern });
+        return deleted;
+    };
+
+    public invalidateTags = async (tags: string[]) => {
+        this.assertSupported('invalidateTags');
+        await this.invalidateLayers((layer) => layer.invalidateTags(tags));
+        await this.invalidationBus?.publish({ op: 'tags', tags });
+    };
+
+    /**
+     * Locks are only held within this instance if none of the layers support them.
+     * When failing open, callers proceed as if they hold the lock if it can't be acquired
+     */
+    public acquireLock = async (keys: string[], ttl: TTL) => {
+        if (!this.lockLayer) {
+            return MultilevelCache.LOCAL_LOCK_TOKEN;
+        }
+        return this.onLayer(
+            this.lockLayer,
+            () => this.lockLayer.acquireLock(keys, ttl),
+            () => MultilevelCache.LOCAL_LOCK_TOKEN,
+        );
+    };
+
+    public releaseLock = async (
+        keys: string[],
+        token: string,
+    ) => {
+        if (!this.lockLayer || token === MultilevelCache.LOCAL_LOCK_TOKEN) {
+            return;
+        }
+        await this.onLayer(
+            this.lockLayer,
+            () => this.lockLayer.releaseLock(keys, token),
+            () => undefined,
+        );
+    };
+
+    /**
+     * Occupancy of the first in-memory layer
+     */
+    public inMemoryStats = (): InMemoryCacheStats => {
+        const inMemoryCache = this.layers.find((layer) => layer instanceof InMemoryCache);
+        return (inMemoryCache as InMemoryCache<Value>)?.stats()
+            ?? { entries: 0, size: 0, evictions: 0 };
     };
 
-    public mdel = async (keys: string[][]) => {
-        keys.forEach(this.inMemoryCache.del);
-        await this.redisCache.batchDel(keys);
+    public close = async () => {
+        await Promise.all(this.layers.map(async (layer) => layer.close?.()));
+        await this.invalidationBus?.close();
     };
 }
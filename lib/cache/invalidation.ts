@@ -0,0 +1,109 @@
+import { randomUUID } from 'node:crypto';
+import { Cluster, Redis } from 'ioredis';
+import { dummyLogger, Logger } from '../types/logging';
+
+type InvalidationPayload = { op: 'del', keys: string[][] }
+    | { op: 'pattern', pattern: string[] }
+    | { op: 'tags', tags: string[] }
+    | { op: 'clear' };
+
+export type InvalidationMessage = InvalidationPayload & { origin: string };
+
+/**
+ * Broadcasts invalidations of in-memory values to every instance of a cache sharing a namespace,
+ * using redis pub/sub. Messages published by an instance are ignored by that same instance.
+ */
+export default class InvalidationBus {
+    private readonly origin = randomUUID();
+
+    private readonly channel: string;
+
+    private readonly redis: Redis | Cluster;
+
+    private readonly namespace: string;
+
+    private readonly onInvalidation: (_message: InvalidationMessage) => void;
+
+    private readonly logger: Logger;
+
+    private subscriber: Redis | Cluster;
+
+    private connectedOnce = false;
+
+    constructor(
+        redis: Redis | Cluster,
+        namespace: string,
+        onInvalidation: (_message: InvalidationMessage) => void,
+        logger: Logger = dummyLogger,
+    ) {
+        this.redis = redis;
+        this.namespace = namespace;
+        this.onInvalidation = onInvalidation;
+        this.logger = logger;
+        this.channel = `${namespace}:invalidations`;
+        this.subscribe();
+    }
+
+    private subscribe = () => {
+        // NOTE: a connection in subscriber mode can't issue regular commands,
+        // so we need a dedicated one
+        this.subscriber = this.redis.duplicate();
+
+        this.subscriber.on('ready', () => {
+            if (this.connectedOnce) {
+                // Messages published while we were disconnected are lost,
+                // so we can't trust anything held in memory anymore
+                this.logger.warn(`[SugarCache:${this.namespace}] Invalidation subscriber reconnected, clearing in-memory cache`);
+                this.onInvalidation({ origin: this.origin, op: 'clear' });
+            }
+            this.connectedOnce = true;
+        });
+
+        this.subscriber.on('error', (err) => {
+            this.logger.error(`[SugarCache:${this.namespace}] Invalidation subscriber error - ${err}`);
+        });
+
+        this.subscriber.on('message', (channel: string, rawMessage: string) => {
+            if (channel !== this.channel) return;
+
+            let message: InvalidationMessage;
+            try {
+                message = JSON.parse(rawMessage);
+            } catch (err) {
+                this.logger.warn(`[SugarCache:${this.namespace}] Unable to parse invalidation message - ${err}`);
+                return;
+            }
+
+            if (message.origin === this.origin) return;
+
+            this.logger.debug(`[SugarCache:${this.namespace}] Received invalidation message - ${rawMessage}`);
+            this.onInvalidation(message);
+        });
+
+        this.subscriber.subscribe(this.channel).catch((err) => {
+            this.logger.error(`[SugarCache:${this.namespace}] Unable to subscribe to invalidation channel - ${err}`);
+        });
+    };
+
+    /**
+     * Publishes an invalidation to other instances. This is best-effort,
+     * failures are logged and do not fail the cache operation that triggered them.
+     */
+    public publish = async (payload: InvalidationPayload) => {
+        const message = JSON.stringify({ ...payload, origin: this.origin });
+        try {
+            await this.redis.publish(this.channel, message);
+        } catch (err) {
+            this.logger.error(`[SugarCache:${this.namespace}] Unable to publish invalidation message - ${err}`);
+        }
+    };
+
+    /**
+     * Unsubscribes from the invalidation channel and closes the subscriber connection
+     */
+    public close = async () => {
+        this.subscriber.removeAllListeners('ready');
+        await this.subscriber.quit()
+            .catch((err) => this.logger.warn(`[SugarCache:${this.namespace}] Unable to close invalidation subscriber - ${err}`));
+    };
+}
@@ -0,0 +1,24 @@
+import { createHash } from 'node:crypto';
+
+// Prefix of hashed key components. Never produced by encoding, since `%` is always followed
+// by two hex digits in encoded components
+const HASHED_COMPONENT_PREFIX = '%H';
+
+/**
+ * Percent-encodes the characters of a key component that would make keys ambiguous - the
+ * separator between components (`:`), hashtag delimiters (`{`, `}`) and `%` itself.
+ * Components longer than `hashThreshold` once encoded are replaced with their SHA-256 hash
+ */
+const encodeKeyComponent = (value: string, hashThreshold?: number) => {
+    const encoded = String(value).replace(
+        /[%:{}]/g,
+        (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+    );
+    if (hashThreshold === undefined || encoded.length <= hashThreshold) {
+        return encoded;
+    }
+    const hash = createHash('sha256').update(String(value)).digest('base64url');
+    return `${HASHED_COMPONENT_PREFIX}${hash}`;
+};
+
+export default encodeKeyComponent;
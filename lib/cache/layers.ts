@@ -0,0 +1,50 @@
+import { Cluster, Redis } from 'ioredis';
+import { InMemoryCacheOptions } from '../types';
+import { LayerFactory } from './base';
+import InMemoryCache from './memory';
+import RedisCache from './redis';
+
+/**
+ * In-memory layer, local to every instance of the cache
+ * @param options Overrides the cache's `inMemoryCache` options for this layer
+ * @param options.name Name of the layer in per-layer TTLs. Defaults to `memory`
+ */
+export const memoryLayer = (
+    options: InMemoryCacheOptions & { name?: string } = {},
+): LayerFactory => ({
+    options: cacheOptions,
+    logger,
+    events,
+    defaultMaxEntries,
+}) => {
+    const { name, ...layerOptions } = options;
+    const inMemoryCacheOptions = { ...cacheOptions.inMemoryCache, ...layerOptions };
+    const isBounded = inMemoryCacheOptions.maxEntries !== undefined
+        || inMemoryCacheOptions.maxSize !== undefined;
+    return new InMemoryCache(
+        {
+            ...cacheOptions,
+            inMemoryCache: isBounded
+                ? inMemoryCacheOptions
+                : { maxEntries: defaultMaxEntries, ...inMemoryCacheOptions },
+        },
+        logger,
+        name,
+        events,
+    );
+};
+
+/**
+ * Redis layer, shared by every instance of the cache
+ * @param options.name Name of the layer in per-layer TTLs. Defaults to `redis`
+ */
+export const redisLayer = (
+    redis: Redis | Cluster,
+    options: { name?: string } = {},
+): LayerFactory => ({ options: cacheOptions, logger, events }) => new RedisCache(
+    redis,
+    cacheOptions,
+    logger,
+    options.name,
+    events,
+);
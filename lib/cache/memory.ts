@@ -1,75 +1,296 @@
 import { memoryUsage } from 'node:process';
-import { Summary } from 'prom-client';
-import { CreateCacheOptions, TTL } from '../types';
+import {
+    CacheEntry,
+    CreateCacheOptions,
+    InMemoryCacheStats,
+    TTL,
+} from '../types';
 import { Logger } from '../types/logging';
-import Cache from './base';
+import { KeyEventName } from '../types/internals';
+import Cache, { StorageAdapter, ttlToMilliseconds } from './base';
+import { createEvictionPolicy, EvictionPolicy } from './eviction';
+import { escapeGlob, globToRegExp } from './pattern';
+import CacheEvents from './events';
 
-export default class InMemoryCache extends Cache {
-    private cache: Map<string, any>;
+export default class InMemoryCache<Value = any> extends Cache implements StorageAdapter<Value> {
+    public readonly name: string;
 
-    private ttlTimers: Map<string, NodeJS.Timeout>;
+    public readonly shared = false;
+
+    private cache: Map<string, CacheEntry<Value>>;
+
+    // Unix timestamps (in milliseconds) at which entries expire
+    private expiries: Map<string, number>;
+
+    private sweepInterval: number;
+
+    private sweepTimer?: NodeJS.Timeout;
+
+    private closed = false;
 
     private enabled: boolean;
 
     private memUsageThreshold: number;
 
-    private cacheHitRatio: Summary;
+    private maxEntries?: number;
+
+    private maxSize?: number;
+
+    private evictionPolicy?: EvictionPolicy;
+
+    private entrySizes: Map<string, number>;
+
+    // Keys of entries carrying each tag
+    private tagIndex: Map<string, Set<string>>;
+
+    private totalSize = 0;
 
-    constructor(options: CreateCacheOptions<any>, logger?: Logger) {
-        const { namespace, inMemoryCache: inMemoryCacheOptions, prometheusClient } = options;
-        super(namespace, prometheusClient, logger);
+    private evictions = 0;
+
+    constructor(
+        options: CreateCacheOptions<any>,
+        logger?: Logger,
+        name?: string,
+        events?: CacheEvents,
+    ) {
+        const {
+            namespace,
+            inMemoryCache: inMemoryCacheOptions,
+            prometheusClient,
+            ttlJitter,
+        } = options;
+        super(namespace, prometheusClient, logger, events);
+        this.name = name ?? 'memory';
+        this.jitter = ttlJitter;
         this.enabled = inMemoryCacheOptions?.enable ?? true;
         this.memUsageThreshold = inMemoryCacheOptions?.memoryThresholdPercentage ?? 0.5;
-        this.cache = new Map<string, any>();
-        this.ttlTimers = new Map();
-        if (prometheusClient) {
-            this.cacheHitRatio = new prometheusClient.Summary({
-                name: 'sugarcache_memory_cache_hit_ratio',
-                help: 'Sugar-cache cache hit ratio in memory',
-            });
+        this.cache = new Map<string, CacheEntry<Value>>();
+        this.expiries = new Map();
+        this.entrySizes = new Map();
+        this.tagIndex = new Map();
+        this.sweepInterval = ttlToMilliseconds(
+            inMemoryCacheOptions?.sweepInterval ?? { value: 30, unit: 'seconds' },
+            namespace,
+        );
+
+        this.maxEntries = inMemoryCacheOptions?.maxEntries;
+        this.maxSize = inMemoryCacheOptions?.maxSize;
+        if (this.maxEntries !== undefined || this.maxSize !== undefined) {
+            this.evictionPolicy = createEvictionPolicy(
+                inMemoryCacheOptions?.evictionPolicy ?? 'lru',
+                this.maxEntries,
+            );
         }
     }
 
-    public get = (keys: string[]) => {
+    /**
+     * Approximate size of an entry in bytes, based on its JSON representation
+     */
+    private static computeEntrySize = (cacheKey: string, entry: CacheEntry) => {
+        let valueSize = 0;
+        try {
+            valueSize = Buffer.byteLength(JSON.stringify(entry.value) ?? '');
+        } catch (err) {
+            // NOTE: Values that can't be serialized are only accounted for by their key
+        }
+        return Buffer.byteLength(cacheKey) + valueSize;
+    };
+
+    private isOverCapacity = () => (
+        (this.maxEntries !== undefined && this.cache.size > this.maxEntries)
+        || (this.maxSize !== undefined && this.totalSize > this.maxSize)
+    );
+
+    private indexTags = (cacheKey: string, tags: string[] = []) => {
+        tags.forEach((tag) => {
+            if (!this.tagIndex.has(tag)) {
+                this.tagIndex.set(tag, new Set());
+            }
+            this.tagIndex.get(tag).add(cacheKey);
+        });
+    };
+
+    private unindexTags = (cacheKey: string, tags: string[] = []) => {
+        tags.forEach((tag) => {
+            const taggedKeys = this.tagIndex.get(tag);
+            taggedKeys?.delete(cacheKey);
+            if (taggedKeys && !taggedKeys.size) {
+                this.tagIndex.delete(tag);
+            }
+        });
+    };
+
+    /**
+     * Emits an event about a key. Must be called before the entry is removed,
+     * for its size to be reported
+     * @param startedAt Time (from `performance.now()`) the operation started at, if timed
+     */
+    private emit = (name: KeyEventName, cacheKey: string, startedAt?: number) => {
+        const size = this.entrySizes.get(cacheKey);
+        this.events?.emit(name, {
+            layer: this.name,
+            key: this.transformFromCacheKey(cacheKey),
+            ...(startedAt !== undefined ? { duration: performance.now() - startedAt } : {}),
+            ...(size !== undefined ? { size } : {}),
+        });
+    };
+
+    private removeEntry = (cacheKey: string) => {
+        this.unindexTags(cacheKey, this.cache.get(cacheKey)?.tags);
+        this.cache.delete(cacheKey);
+        this.expiries.delete(cacheKey);
+
+        this.totalSize -= this.entrySizes.get(cacheKey) ?? 0;
+        this.entrySizes.delete(cacheKey);
+        this.metrics?.recordMemoryEntries(this.name, this.cache.size);
+    };
+
+    private isExpired = (cacheKey: string, now = Date.now()) => {
+        const expiresAt = this.expiries.get(cacheKey);
+        return expiresAt !== undefined && expiresAt <= now;
+    };
+
+    private expire = (cacheKey: string) => {
+        this.emit('expire', cacheKey);
+        this.removeEntry(cacheKey);
+        this.evictionPolicy?.onRemove(cacheKey);
+        this.logger.debug(`[SugarCache:${this.namespace}]: Expired key ${cacheKey} from memory`);
+    };
+
+    /**
+     * Expired entries are removed lazily when read. The sweeper periodically removes
+     * the ones that are never read again, so that they don't hold on to memory
+     */
+    private sweep = () => {
+        const now = Date.now();
+        this.expiries.forEach((_, cacheKey) => {
+            if (this.isExpired(cacheKey, now)) {
+                this.expire(cacheKey);
+            }
+        });
+    };
+
+    private startSweeper = () => {
+        if (this.sweepTimer || this.closed) {
+            return;
+        }
+        this.sweepTimer = setInterval(this.sweep, this.sweepInterval);
+        // NOTE: The sweeper should never be the reason the process stays alive
+        this.sweepTimer.unref();
+    };
+
+    private evictUntilWithinCapacity = () => {
+        while (this.isOverCapacity()) {
+            const victim = this.evictionPolicy.evict();
+            if (victim === undefined) {
+                return;
+            }
+            this.emit('evict', victim);
+            this.removeEntry(victim);
+            this.evictions += 1;
+            this.metrics?.recordEviction(this.name);
+            this.logger.debug(`[SugarCache:${this.namespace}]: Evicted key ${victim} from memory`);
+        }
+    };
+
+    public get = (keys: string[]): CacheEntry<Value> | null => {
         if (!this.enabled) {
             return null;
         }
+        const startedAt = performance.now();
         const key = keys.join(':');
         const cacheKey = this.transformIntoCacheKey(key);
 
+        if (this.isExpired(cacheKey)) {
+            this.expire(cacheKey);
+        }
+
         const result = this.cache.get(cacheKey) ?? null;
 
         if (result) {
-            this.cacheHitRatio?.observe(1);
+            this.evictionPolicy?.onAccess(cacheKey);
             this.logger.debug(`[SugarCache:${this.namespace}]: key ${cacheKey} found in memory, returning...`);
-        } else {
-            this.cacheHitRatio?.observe(0);
         }
+        this.emit(result ? 'hit' : 'miss', cacheKey, startedAt);
         return result;
     };
 
-    public set = (keys: string[], value: any, ttl: TTL) => {
+    public set = (keys: string[], entry: CacheEntry<Value>, ttl: TTL) => {
         if (!this.enabled) {
             return;
         }
+        const startedAt = performance.now();
 
-        const memorySnapshot = memoryUsage();
-        const memUsed = memorySnapshot.heapUsed / memorySnapshot.heapTotal;
-        if (memUsed >= this.memUsageThreshold) {
-            this.logger.warn(`[SugarCache:${this.namespace}]: Memory usage threshold exceeded, not writing to cache`);
-            return;
+        // NOTE: Bounded caches make space by evicting entries instead
+        if (!this.evictionPolicy) {
+            const memorySnapshot = memoryUsage();
+            const memUsed = memorySnapshot.heapUsed / memorySnapshot.heapTotal;
+            if (memUsed >= this.memUsageThreshold) {
+                this.logger.warn(`[SugarCache:${this.namespace}]: Memory usage threshold exceeded, not writing to cache`);
+                return;
+            }
         }
 
         const key = keys.join(':');
         const cacheKey = this.transformIntoCacheKey(key);
 
-        this.cache.set(cacheKey, value);
-        const ttlTimer = setTimeout(() => this.del(keys), this.computeTTLInMilliseconds(ttl));
-        this.ttlTimers.set(cacheKey, ttlTimer);
+        const isOverwrite = this.cache.has(cacheKey);
+        this.unindexTags(cacheKey, this.cache.get(cacheKey)?.tags);
+        this.cache.set(cacheKey, entry);
+        this.indexTags(cacheKey, entry.tags);
+        this.expiries.set(cacheKey, Date.now() + this.computeTTLInMilliseconds(ttl));
+        this.metrics?.recordMemoryEntries(this.name, this.cache.size);
+        this.startSweeper();
+
+        if (this.evictionPolicy) {
+            if (this.maxSize !== undefined) {
+                const entrySize = InMemoryCache.computeEntrySize(cacheKey, entry);
+                this.totalSize += entrySize - (this.entrySizes.get(cacheKey) ?? 0);
+                this.entrySizes.set(cacheKey, entrySize);
+            }
+
+            if (isOverwrite) {
+                this.evictionPolicy.onAccess(cacheKey);
+            } else {
+                this.evictionPolicy.onInsert(cacheKey);
+            }
+            this.evictUntilWithinCapacity();
+        }
 
+        // NOTE: Entries larger than the whole cache are evicted straight away
+        if (this.cache.has(cacheKey)) {
+            this.emit('set', cacheKey, startedAt);
+        }
         this.logger.debug(`[SugarCache:${this.namespace}]: Set key ${cacheKey} in memory`);
     };
 
+    public batchGet = (keys: string[][]) => keys.map(this.get);
+
+    /**
+     * @param ttls TTL of each entry
+     */
+    public batchSet = (keys: string[][], entries: CacheEntry<Value>[], ttls: TTL[]) => {
+        keys.forEach((key, idx) => this.set(key, entries[idx], ttls[idx]));
+    };
+
+    /**
+     * Resets the expiry of entries, if present
+     * @param ttls Time from now (in milliseconds) after which each entry expires
+     */
+    public touch = (keys: string[][], ttls: number[]) => {
+        if (!this.enabled) {
+            return;
+        }
+        const now = Date.now();
+
+        keys.forEach((key, idx) => {
+            const cacheKey = this.transformIntoCacheKey(key.join(':'));
+            if (this.cache.has(cacheKey) && !this.isExpired(cacheKey, now)) {
+                this.expiries.set(cacheKey, now + ttls[idx]);
+            }
+        });
+    };
+
     public del = (keys: string[]) => {
         if (!this.enabled) {
             return;
@@ -77,15 +298,93 @@ export default class InMemoryCache extends Cache {
         const key = keys.join(':');
         const cacheKey = this.transformIntoCacheKey(key);
 
-        this.cache.delete(cacheKey);
-
-        const ttlTimer = this.ttlTimers.get(cacheKey);
-        if (ttlTimer) {
-            clearTimeout(ttlTimer);
+        if (this.cache.has(cacheKey)) {
+            this.emit('delete', cacheKey);
         }
+        this.removeEntry(cacheKey);
+        this.evictionPolicy?.onRemove(cacheKey);
 
         this.logger.debug(`[SugarCache:${this.namespace}]: Deleted key ${cacheKey} from memory`);
     };
 
-    public clear = () => this.enabled && this.cache.clear();
+    public batchDel = (keys: string[][]) => {
+        keys.forEach(this.del);
+    };
+
+    /**
+     * @returns The number of entries removed
+     */
+    public clear = () => {
+        if (!this.enabled) {
+            return 0;
+        }
+        const cleared = this.cache.size;
+        this.cache.clear();
+        this.expiries.clear();
+        this.entrySizes.clear();
+        this.tagIndex.clear();
+        this.totalSize = 0;
+        this.evictionPolicy?.clear();
+        this.metrics?.recordMemoryEntries(this.name, 0);
+        return cleared;
+    };
+
+    /**
+     * Deletes all keys matching a pattern
+     * @param pattern Glob-style pattern for each component of the key
+     * @returns The number of entries removed
+     */
+    public delWhere = (pattern: string[]) => {
+        if (!this.enabled) {
+            return 0;
+        }
+
+        const cachePattern = `${escapeGlob(this.namespace)}:${pattern.join(':')}`;
+        const matcher = globToRegExp(cachePattern);
+
+        const matchingKeys = [...this.cache.keys()].filter((cacheKey) => matcher.test(cacheKey));
+        matchingKeys.forEach((cacheKey) => {
+            this.emit('delete', cacheKey);
+            this.removeEntry(cacheKey);
+            this.evictionPolicy?.onRemove(cacheKey);
+        });
+
+        this.logger.debug(`[SugarCache:${this.namespace}]: Removed ${matchingKeys.length} keys matching ${cachePattern} from memory`);
+        return matchingKeys.length;
+    };
+
+    public invalidateTags = (tags: string[]) => {
+        if (!this.enabled) {
+            return;
+        }
+
+        tags.forEach((tag) => {
+            const taggedKeys = [...(this.tagIndex.get(tag) ?? [])];
+            taggedKeys.forEach((cacheKey) => {
+                this.emit('delete', cacheKey);
+                this.removeEntry(cacheKey);
+                this.evictionPolicy?.onRemove(cacheKey);
+            });
+            this.logger.debug(`[SugarCache:${this.namespace}]: Invalidated ${taggedKeys.length} keys tagged ${tag} from memory`);
+        });
+    };
+
+    /**
+     * Stops the background sweeper. Entries are still expired lazily when read
+     */
+    public close = () => {
+        this.closed = true;
+        clearInterval(this.sweepTimer);
+        this.sweepTimer = undefined;
+    };
+
+    /**
+     * Current occupancy of the cache, along with the number of entries evicted
+     * since it was created
+     */
+    public stats = (): InMemoryCacheStats => ({
+        entries: this.cache.size,
+        size: this.totalSize,
+        evictions: this.evictions,
+    });
 }
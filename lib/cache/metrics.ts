@@ -0,0 +1,163 @@
+import { Metric } from 'prom-client';
+import { PrometheusClient } from '../types';
+
+export type CacheOperation = 'get' | 'set' | 'del' | 'mget' | 'mset' | 'mdel' | 'clear';
+
+export type CacheErrorType = 'operation'
+    | 'timeout'
+    | 'circuit_open'
+    | 'deserialization'
+    | 'validation'
+    | 'migration';
+
+/**
+ * Records metrics of a cache on a prometheus client.
+ *
+ * Metrics are shared by every cache using the same client and told apart by their `namespace`
+ * label, so any number of caches can be created with a client. Each metric is registered
+ * the first time it is recorded
+ */
+export default class CacheMetrics {
+    private client: PrometheusClient;
+
+    private namespace: string;
+
+    constructor(client: PrometheusClient, namespace: string) {
+        this.client = client;
+        this.namespace = namespace;
+    }
+
+    private metric = <T extends Metric>(name: string, create: () => T): T => (
+        this.client.register.getSingleMetric(name) as T ?? create()
+    );
+
+    private counter = (name: string, help: string, labelNames: string[]) => this.metric(
+        name,
+        () => new this.client.Counter({ name, help, labelNames }),
+    );
+
+    private gauge = (name: string, help: string, labelNames: string[]) => this.metric(
+        name,
+        () => new this.client.Gauge({ name, help, labelNames }),
+    );
+
+    private histogram = (
+        name: string,
+        help: string,
+        labelNames: string[],
+        buckets?: number[],
+    ) => this.metric(
+        name,
+        () => new this.client.Histogram({
+            name,
+            help,
+            labelNames,
+            ...(buckets ? { buckets } : {}),
+        }),
+    );
+
+    private hits = () => this.counter(
+        'sugarcache_hits_total',
+        'Sugar-cache reads that found a value, by the layer it was found on',
+        ['namespace', 'layer'],
+    );
+
+    private misses = () => this.counter(
+        'sugarcache_misses_total',
+        'Sugar-cache reads that didn\'t find a value on a layer',
+        ['namespace', 'layer'],
+    );
+
+    private operationDuration = () => this.histogram(
+        'sugarcache_operation_duration_seconds',
+        'Duration of sugar-cache operations across all layers',
+        ['namespace', 'operation'],
+    );
+
+    private payloadSize = () => this.histogram(
+        'sugarcache_payload_size_bytes',
+        'Size of values written to sugar-cache layers, once encoded',
+        ['namespace', 'layer'],
+        this.client.exponentialBuckets(64, 4, 8),
+    );
+
+    private errors = () => this.counter(
+        'sugarcache_errors_total',
+        'Errors encountered by sugar-cache, by type',
+        ['namespace', 'layer', 'type'],
+    );
+
+    private memoryEntries = () => this.gauge(
+        'sugarcache_memory_entries',
+        'Number of entries held in sugar-cache in-memory layers',
+        ['namespace', 'layer'],
+    );
+
+    private memoryEvictions = () => this.counter(
+        'sugarcache_memory_evictions_total',
+        'Entries evicted from sugar-cache in-memory layers to stay within capacity',
+        ['namespace', 'layer'],
+    );
+
+    private memoizedExecutionDuration = () => this.histogram(
+        'sugarcache_memoized_execution_duration_seconds',
+        'Duration of executions of functions memoized with sugar-cache, on cache misses',
+        ['namespace', 'function'],
+    );
+
+    /**
+     * @param hits Number of keys found on the layer
+     * @param misses Number of keys not found on the layer
+     */
+    public recordReads = (layer: string, hits: number, misses: number) => {
+        const labels = { namespace: this.namespace, layer };
+        if (hits) {
+            this.hits().inc(labels, hits);
+        }
+        if (misses) {
+            this.misses().inc(labels, misses);
+        }
+    };
+
+    public recordPayloadSize = (layer: string, bytes: number) => {
+        this.payloadSize().observe({ namespace: this.namespace, layer }, bytes);
+    };
+
+    public recordError = (layer: string, type: CacheErrorType, count = 1) => {
+        this.errors().inc({ namespace: this.namespace, layer, type }, count);
+    };
+
+    public recordMemoryEntries = (layer: string, entries: number) => {
+        this.memoryEntries().set({ namespace: this.namespace, layer }, entries);
+    };
+
+    public recordEviction = (layer: string) => {
+        this.memoryEvictions().inc({ namespace: this.namespace, layer });
+    };
+
+    /**
+     * Runs an operation, recording how long it takes whether it succeeds or not
+     */
+    public timeOperation = async <T>(operation: CacheOperation, execute: () => Promise<T>) => {
+        const endTimer = this.operationDuration()
+            .startTimer({ namespace: this.namespace, operation });
+        try {
+            return await execute();
+        } finally {
+            endTimer();
+        }
+    };
+
+    /**
+     * Runs a memoized function, recording how long it takes whether it succeeds or not
+     */
+    public timeExecution = async <T>(fnName: string, execute: () => Promise<T>) => {
+        const endTimer = this.memoizedExecutionDuration()
+            .startTimer({ namespace: this.namespace, function: fnName });
+        try {
+            return await execute();
+        } finally {
+            endTimer();
+        }
+    };
+}
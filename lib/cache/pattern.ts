@@ -0,0 +1,35 @@
+/**
+ * Escapes characters that have a special meaning in redis glob-style patterns
+ * (https://redis.io/commands/keys/), so that a value is matched literally
+ */
+export const escapeGlob = (value: string) => value.replace(/[*?[\]\\]/g, '\\$&');
+
+/**
+ * Converts a redis glob-style pattern into an equivalent regular expression
+ */
+export const globToRegExp = (pattern: string) => {
+    let source = '';
+    for (let i = 0; i < pattern.length; i += 1) {
+        const char = pattern[i];
+        if (char === '\\' && i + 1 < pattern.length) {
+            i += 1;
+            source += pattern[i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        } else if (char === '*') {
+            source += '.*';
+        } else if (char === '?') {
+            source += '.';
+        } else if (char === '[') {
+            const end = pattern.indexOf(']', i + 1);
+            if (end === -1) {
+                source += '\\[';
+            } else {
+                const set = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+                source += set.startsWith('^') ? `[^${set.slice(1)}]` : `[${set}]`;
+                i = end;
+            }
+        } else {
+            source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`, 's');
+};
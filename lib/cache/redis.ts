@@ -1,37 +1,290 @@
-/* eslint-disable no-unused-expressions */
-import { Cluster, Redis } from 'ioredis';
-import { Summary } from 'prom-client';
+import { randomUUID } from 'node:crypto';
+import { ChainableCommander, Cluster, Redis } from 'ioredis';
 import { RedisExpiryModes } from '../constants';
-import { CreateCacheOptions, TTL } from '../types';
+import {
+    CacheEntry,
+    ClearOptions,
+    CreateCacheOptions,
+    TTL,
+} from '../types';
 import { Logger } from '../types/logging';
-import Cache from './base';
+import { KeyEventName } from '../types/internals';
+import EntryCodec from '../serialization/codec';
+import Cache, { StorageAdapter, ttlToMilliseconds } from './base';
+import { escapeGlob } from './pattern';
+import CacheEvents from './events';
+import calculateSlot from './slots';
+
+export default class RedisCache<Value = any> extends Cache implements StorageAdapter<Value> {
+    public readonly name: string;
+
+    public readonly shared = true;
 
-export default class RedisCache extends Cache {
     private redis: Redis | Cluster;
 
-    private cacheHitRatio: Summary;
+    private codec: EntryCodec;
 
-    constructor(redis: Redis | Cluster, options: CreateCacheOptions<any>, logger?: Logger) {
-        const { namespace, prometheusClient } = options;
-        super(namespace, prometheusClient, logger);
+    constructor(
+        redis: Redis | Cluster,
+        options: CreateCacheOptions<any>,
+        logger?: Logger,
+        name?: string,
+        events?: CacheEvents,
+    ) {
+        const {
+            namespace,
+            prometheusClient,
+            serializer,
+            compression,
+            ttlJitter,
+        } = options;
+        super(namespace, prometheusClient, logger, events);
+        this.name = name ?? 'redis';
+        this.jitter = ttlJitter;
         this.redis = redis;
-        if (prometheusClient) {
-            this.cacheHitRatio = new prometheusClient.Summary({
-                name: 'sugarcache_redis_cache_hit_ratio',
-                help: 'Sugar-cache cache hit ratio on redis',
-            });
-        }
+        this.codec = new EntryCodec(serializer, compression);
     }
 
     private redisTransaction = () => this.redis.multi();
 
+    /**
+     * Emits an event about a key
+     * @param details.startedAt Time (from `performance.now()`) the operation started at, if timed
+     * @param details.size Size of the encoded value in bytes, if known
+     */
+    private emit = (
+        name: KeyEventName,
+        cacheKey: string,
+        details: { startedAt?: number, size?: number } = {},
+    ) => {
+        const { startedAt, size } = details;
+        this.events?.emit(name, {
+            layer: this.name,
+            key: this.transformFromCacheKey(cacheKey),
+            ...(startedAt !== undefined ? { duration: performance.now() - startedAt } : {}),
+            ...(size !== undefined ? { size } : {}),
+        });
+    };
+
+    // Deletes the lock only if it is still held by the caller
+    private static RELEASE_LOCK_SCRIPT = `
+        if redis.call('GET', KEYS[1]) == ARGV[1] then
+            return redis.call('DEL', KEYS[1])
+        end
+        return 0
+    `;
+
+    private transformIntoLockKey = (keys: string[]) => `${this.namespace}:__lock__:${keys.join(':')}`;
+
+    // Adds a key to a tag's set, extending the set's expiry to outlive the key if needed
+    private static TAG_KEY_SCRIPT = `
+        redis.call('SADD', KEYS[1], ARGV[1])
+        if redis.call('PTTL', KEYS[1]) < tonumber(ARGV[2]) then
+            redis.call('PEXPIRE', KEYS[1], ARGV[2])
+        end
+        return 1
+    `;
+
+    private transformIntoTagKey = (tag: string) => `${this.namespace}:__tag__:${tag}`;
+
+    /**
+     * Tracks keys against their tags. Tag sets live in different slots than the keys they track,
+     * so on clusters these can't be written in the same transaction as the keys
+     */
+    private tagKeys = async (cacheKeys: string[], tags: string[][], ttls: number[]) => {
+        const commands: Promise<unknown>[] = [];
+        cacheKeys.forEach((cacheKey, idx) => {
+            tags[idx]?.forEach((tag) => {
+                commands.push(this.redis.eval(
+                    RedisCache.TAG_KEY_SCRIPT,
+                    1,
+                    this.transformIntoTagKey(tag),
+                    cacheKey,
+                    ttls[idx],
+                ));
+            });
+        });
+        await Promise.all(commands);
+    };
+
+    // Keys used for bookkeeping (locks, tags) rather than for storing values
+    private isInternalKey = (cacheKey: string) => cacheKey.startsWith(`${this.namespace}:__lock__:`)
+        || cacheKey.startsWith(`${this.namespace}:__tag__:`);
+
+    /**
+     * Iterates over keys matching a pattern with SCAN, on every master node for clusters
+     * @param onKeys Called with every batch of keys found, along with the node they live on
+     * @param options.count Number of keys requested per SCAN
+     * @param options.signal Stops the iteration before the next SCAN once aborted
+     */
+    private scanKeys = async (
+        pattern: string,
+        onKeys: (_node: Redis, _keys: string[]) => Promise<void>,
+        options: { count?: number, signal?: AbortSignal } = {},
+    ) => {
+        const { count = 100, signal } = options;
+        const nodes = this.redis instanceof Cluster
+            ? this.redis.nodes('master')
+            : [this.redis as Redis];
+
+        await Promise.all(nodes.map(async (node) => {
+            const scanFrom = async (cursor: string): Promise<void> => {
+                signal?.throwIfAborted();
+                const [nextCursor, keys] = await node.scan(cursor, 'MATCH', pattern, 'COUNT', count);
+                if (keys.length) {
+                    await onKeys(node, keys);
+                }
+                if (nextCursor !== '0') {
+                    await scanFrom(nextCursor);
+                }
+            };
+            await scanFrom('0');
+        }));
+    };
+
+    /**
+     * Throws the first error found in the replies of a pipeline, like single-key operations do
+     * for their transactions
+     */
+    private throwOnPipelineError = (replies: [Error | null, unknown][] | null) => {
+        const failedReply = replies?.find(([err]) => err);
+        if (failedReply) {
+            this.logger.debug(`[SugarCache:${this.namespace}] error encountered on redis layer - ${failedReply[0]}`);
+            throw new Error('[SugarCache] Internal redis error');
+        }
+    };
+
+    /**
+     * Deletes keys living on a single node. Keys are unlinked individually since
+     * multi-key commands fail on clusters when keys belong to different slots.
+     * UNLINK frees memory in the background, so large values don't block redis
+     */
+    private deleteKeysOnNode = async (node: Redis, cacheKeys: string[]) => {
+        let pipe = node.pipeline();
+        cacheKeys.forEach((cacheKey) => {
+            pipe = pipe.unlink(cacheKey);
+        });
+        this.throwOnPipelineError(await pipe.exec());
+    };
+
+    private deleteKeys = async (cacheKeys: string[]) => {
+        if (!cacheKeys.length) return;
+
+        if (this.redis instanceof Cluster) {
+            // NOTE: Keys can belong to different slots, so they are deleted individually
+            await Promise.all(cacheKeys.map((k) => this.redis.del(k)));
+            return;
+        }
+        await this.redis.del(cacheKeys);
+    };
+
+    /**
+     * Runs commands on keys in pipelines, returning replies in the order of the keys.
+     * On clusters, keys are grouped by the nodes serving their slot (or by slot, until the
+     * slot map is known) and a pipeline is run per group in parallel, since ioredis rejects
+     * pipelines holding keys served by different nodes. Throws if any of the commands failed
+     * @param addCommands Queues the commands for a key (at the given index) on a pipeline
+     * @param commandsPerKey Number of commands queued per key
+     */
+    private pipelinePerNode = async (
+        cacheKeys: string[],
+        addCommands: (
+            _pipe: ChainableCommander,
+            _cacheKey: string,
+            _idx: number,
+        ) => ChainableCommander,
+        commandsPerKey = 1,
+    ) => {
+        if (!(this.redis instanceof Cluster)) {
+            const pipe = cacheKeys.reduce(addCommands, this.redis.pipeline());
+            const replies = await pipe.exec();
+            this.throwOnPipelineError(replies);
+            return replies;
+        }
+
+        // NOTE: Nodes are grouped the way ioredis groups them when validating pipelines
+        const { slots } = this.redis;
+        const groups = new Map<string, number[]>();
+        cacheKeys.forEach((cacheKey, idx) => {
+            const slot = calculateSlot(cacheKey);
+            const group = slots[slot]?.join(';') ?? `slot:${slot}`;
+            if (!groups.has(group)) {
+                groups.set(group, []);
+            }
+            groups.get(group).push(idx);
+        });
+
+        const replies: [Error | null, unknown][] = new Array(cacheKeys.length * commandsPerKey);
+        await Promise.all([...groups.values()].map(async (indices) => {
+            const pipe = indices.reduce(
+                (acc, idx) => addCommands(acc, cacheKeys[idx], idx),
+                this.redis.pipeline(),
+            );
+            const groupReplies = await pipe.exec();
+            this.throwOnPipelineError(groupReplies);
+            indices.forEach((idx, position) => {
+                replies.splice(
+                    idx * commandsPerKey,
+                    commandsPerKey,
+                    ...groupReplies.slice(
+                        position * commandsPerKey,
+                        (position + 1) * commandsPerKey,
+                    ),
+                );
+            });
+        }));
+        return replies;
+    };
+
+    private static isCacheEntry = (value: any): value is CacheEntry => typeof value === 'object'
+        && value !== null
+        && 'value' in value
+        && typeof value.writtenAt === 'number';
+
+    private serialize = async (entry: CacheEntry<Value>) => {
+        const data = await this.codec.encode(entry);
+        this.metrics?.recordPayloadSize(this.name, data.byteLength);
+        return data;
+    };
+
+    private deserialize = async (
+        value: Buffer | null,
+        cacheKey: string,
+    ): Promise<CacheEntry<Value> | null> => {
+        if (value === null) {
+            return null;
+        }
+
+        let parsed;
+        try {
+            parsed = await this.codec.decode(value);
+        } catch (err) {
+            this.logger.debug(`[SugarCache:${this.namespace}] Error encountered in parsing - ${err}`);
+            this.metrics?.recordError(this.name, 'deserialization');
+            this.events?.emit('error', {
+                layer: this.name,
+                error: err,
+                key: this.transformFromCacheKey(cacheKey),
+            });
+            return null;
+        }
+
+        if (RedisCache.isCacheEntry(parsed)) {
+            return parsed;
+        }
+        // NOTE: Values written by older versions of the library aren't wrapped in an entry.
+        // These are considered to have been written at the epoch
+        return parsed === null ? null : { value: parsed, writtenAt: 0 };
+    };
+
     public get = async (keys: string[]) => {
+        const startedAt = performance.now();
         const key = keys.join(':');
         const cacheKey = this.transformIntoCacheKey(key);
 
         const result = await this.redisTransaction()
             // fetch value
-            .get(cacheKey)
+            .getBuffer(cacheKey)
             .exec();
 
         result.forEach(([err, _]) => {
@@ -43,34 +296,33 @@ export default class RedisCache extends Cache {
 
         const [_, value] = result[0];
 
-        let output;
-        try {
-            output = JSON.parse(value as string);
-        } catch (err) {
-            this.logger.debug(`[SugarCache:${this.namespace}] Error encountered in parsing - ${err}`);
-            output = null;
-        }
+        const output = await this.deserialize(value as Buffer, cacheKey);
 
         if (output) {
-            this.cacheHitRatio?.observe(1);
             this.logger.debug(`[SugarCache:${this.namespace}] key ${cacheKey} found in redis, returning..`);
-        } else {
-            this.cacheHitRatio?.observe(0);
         }
+        this.emit(output ? 'hit' : 'miss', cacheKey, {
+            startedAt,
+            size: (value as Buffer)?.byteLength,
+        });
         return output;
     };
 
-    public set = async (keys: string[], value: any, ttl: TTL) => {
+    public set = async (keys: string[], entry: CacheEntry<Value>, ttl: TTL) => {
+        const startedAt = performance.now();
         const key = keys.join(':');
         const cacheKey = this.transformIntoCacheKey(key);
 
+        const serializedEntry = await this.serialize(entry);
+        const ttlInMilliseconds = this.computeTTLInMilliseconds(ttl);
+
         const result = await this.redisTransaction()
             // set value in cache
             .set(
                 cacheKey,
-                JSON.stringify(value),
+                serializedEntry,
                 RedisExpiryModes.Milliseconds,
-                this.computeTTLInMilliseconds(ttl),
+                ttlInMilliseconds,
             )
             .exec();
 
@@ -81,6 +333,9 @@ export default class RedisCache extends Cache {
             }
         });
 
+        await this.tagKeys([cacheKey], [entry.tags], [ttlInMilliseconds]);
+
+        this.emit('set', cacheKey, { startedAt, size: serializedEntry.byteLength });
         this.logger.debug(`[SugarCache:${this.namespace}] key ${cacheKey} set in redis`);
     };
 
@@ -99,75 +354,192 @@ export default class RedisCache extends Cache {
             }
         });
 
+        if (result[0][1]) {
+            this.emit('delete', cacheKey);
+        }
         this.logger.debug(`[SugarCache:${this.namespace}] removed key ${cacheKey} from redis`);
     };
 
-    public clear = async () => {
-        if (this.redis instanceof Cluster) {
-            const deletionCandidateKeysMap = await Promise.all((this.redis as Cluster).nodes('master')
-                .map(async (node) => node.keys(`${this.namespace}*`)));
-            const deletionCandidateKeys = [].concat(...deletionCandidateKeysMap);
-            this.logger.debug(`[SugarCache:${this.namespace}] Deletion candidate keys - ${deletionCandidateKeys}`);
-            await Promise.all(deletionCandidateKeys.map((k) => this.redis.del(k)));
-            this.logger.debug(`[SugarCache:${this.namespace}] Deletion keys removed`);
-            return;
-        }
-        const deletionCandidateKeys = await this.redis.keys(`${this.namespace}*`);
-
-        this.logger.debug(`[SugarCache:${this.namespace}] Deletion candidate keys - ${deletionCandidateKeys}`);
-        if (!deletionCandidateKeys.length) return;
+    /**
+     * Deletes all keys under the namespace, including locks and tags.
+     * Keys are found with SCAN and deleted in batches, so redis isn't blocked on large keyspaces
+     * @returns The number of keys deleted
+     */
+    public clear = async (options: ClearOptions = {}) => {
+        const { batchSize, signal, onProgress } = options;
+        const cachePattern = `${escapeGlob(this.namespace)}:*`;
+        let deleted = 0;
 
-        await this.redis.del(deletionCandidateKeys);
+        await this.scanKeys(cachePattern, async (node, keys) => {
+            await this.deleteKeysOnNode(node, keys);
+            deleted += keys.length;
+            onProgress?.(deleted);
+            this.logger.debug(`[SugarCache:${this.namespace}] Removed ${deleted} keys from redis so far`);
+        }, { count: batchSize, signal });
 
-        this.logger.debug(`[SugarCache:${this.namespace}] Deletion keys removed`);
+        this.logger.debug(`[SugarCache:${this.namespace}] Removed ${deleted} keys from redis`);
+        return deleted;
     };
 
-    public batchGet = async (keys: string[][]) => {
-        let pipe = this.redis.pipeline();
-        keys.forEach((key) => {
-            const cacheKey = this.transformIntoCacheKey(key.join(':'));
-            pipe = pipe.get(cacheKey);
-        });
+    /**
+     * @param withTTL Also fetch the remaining TTL (in milliseconds) of every key in the pipeline
+     */
+    private batchFetch = async (keys: string[][], withTTL: boolean) => {
+        const startedAt = performance.now();
+        const cacheKeys = keys.map((key) => this.transformIntoCacheKey(key.join(':')));
+        const repliesPerKey = withTTL ? 2 : 1;
+        const replies = await this.pipelinePerNode(
+            cacheKeys,
+            (pipe, cacheKey) => (withTTL
+                ? pipe.getBuffer(cacheKey).pttl(cacheKey)
+                : pipe.getBuffer(cacheKey)),
+            repliesPerKey,
+        );
 
-        const results = (await pipe.exec()).map((redisReply) => {
-            try {
-                const out = JSON.parse(redisReply[1] as string) ?? null;
-                out ? this.cacheHitRatio?.observe(1) : this.cacheHitRatio?.observe(0);
-                return out;
-            } catch (err) {
-                // NOTE(Shantanu): This case should only arise if no value is set
-                return null;
-            }
-        });
+        const results = await Promise.all(cacheKeys.map(async (cacheKey, idx) => {
+            const [, value] = replies[idx * repliesPerKey];
+            const out = await this.deserialize(value as Buffer, cacheKey);
+            this.emit(out ? 'hit' : 'miss', cacheKey, {
+                startedAt,
+                size: (value as Buffer)?.byteLength,
+            });
+            return {
+                entry: out,
+                ttl: withTTL ? replies[idx * repliesPerKey + 1][1] as number : undefined,
+            };
+        }));
         return results;
     };
 
-    public batchSet = async (keys: string[][], values: any[], ttl: TTL) => {
-        if (keys.length !== values.length) {
+    public batchGet = async (keys: string[][]) => (
+        await this.batchFetch(keys, false)
+    ).map(({ entry }) => entry);
+
+    /**
+     * Reads entries along with their remaining TTLs in milliseconds (as reported by `PTTL`)
+     */
+    public batchGetWithTTL = async (keys: string[][]) => this.batchFetch(keys, true);
+
+    /**
+     * @param ttls TTL of each entry
+     */
+    public batchSet = async (keys: string[][], entries: CacheEntry<Value>[], ttls: TTL[]) => {
+        if (keys.length !== entries.length) {
             throw new Error('Length of keys doesn\'t match length of values');
         }
-        let pipe = this.redis.pipeline();
-        keys.forEach((key, idx) => {
-            const cacheKey = this.transformIntoCacheKey(key.join(':'));
-            const value = JSON.stringify(values[idx]);
-            pipe = pipe.set(
-                cacheKey,
-                value,
-                RedisExpiryModes.Milliseconds,
-                this.computeTTLInMilliseconds(ttl),
-            );
+        const startedAt = performance.now();
+        const serializedEntries = await Promise.all(entries.map(this.serialize));
+        // NOTE: Computed per entry so that every entry gets its own jitter
+        const ttlsInMilliseconds = ttls.map(this.computeTTLInMilliseconds);
+        const cacheKeys = keys.map((key) => this.transformIntoCacheKey(key.join(':')));
+
+        await this.pipelinePerNode(cacheKeys, (pipe, cacheKey, idx) => pipe.set(
+            cacheKey,
+            serializedEntries[idx],
+            RedisExpiryModes.Milliseconds,
+            ttlsInMilliseconds[idx],
+        ));
+        await this.tagKeys(cacheKeys, entries.map((entry) => entry.tags), ttlsInMilliseconds);
+        cacheKeys.forEach((cacheKey, idx) => this.emit('set', cacheKey, {
+            startedAt,
+            size: serializedEntries[idx].byteLength,
+        }));
+    };
+
+    /**
+     * Deletes all keys matching a pattern
+     * @param pattern Glob-style pattern for each component of the key
+     * @returns The number of keys deleted
+     */
+    public delWhere = async (pattern: string[]) => {
+        const cachePattern = `${escapeGlob(this.namespace)}:${pattern.join(':')}`;
+        let deleted = 0;
+
+        await this.scanKeys(cachePattern, async (node, keys) => {
+            const deletionCandidateKeys = keys.filter((k) => !this.isInternalKey(k));
+            await this.deleteKeysOnNode(node, deletionCandidateKeys);
+            deleted += deletionCandidateKeys.length;
+            deletionCandidateKeys.forEach((cacheKey) => this.emit('delete', cacheKey));
         });
 
-        await pipe.exec();
+        this.logger.debug(`[SugarCache:${this.namespace}] Removed ${deleted} keys matching ${cachePattern} from redis`);
+        return deleted;
+    };
+
+    /**
+     * Deletes all keys tagged with any of the given tags
+     */
+    public invalidateTags = async (tags: string[]) => {
+        await Promise.all(tags.map(async (tag) => {
+            const tagKey = this.transformIntoTagKey(tag);
+            const taggedKeys = await this.redis.smembers(tagKey);
+
+            await this.deleteKeys(taggedKeys);
+            await this.redis.del(tagKey);
+            // NOTE: Tags may still track keys that have since expired
+            taggedKeys.forEach((cacheKey) => this.emit('delete', cacheKey));
+
+            this.logger.debug(`[SugarCache:${this.namespace}] Invalidated ${taggedKeys.length} keys tagged ${tag} from redis`);
+        }));
+    };
+
+    /**
+     * Resets the expiry of keys, if present
+     * @param ttls Time from now (in milliseconds) after which each key expires
+     */
+    public touch = async (keys: string[][], ttls: number[]) => {
+        const cacheKeys = keys.map((key) => this.transformIntoCacheKey(key.join(':')));
+        await this.pipelinePerNode(
+            cacheKeys,
+            (pipe, cacheKey, idx) => pipe.pexpire(cacheKey, ttls[idx]),
+        );
     };
 
     public batchDel = async (keys: string[][]) => {
-        let pipe = this.redis.pipeline();
-        keys.forEach((key) => {
-            const cacheKey = this.transformIntoCacheKey(key.join(':'));
-            pipe = pipe.del(cacheKey);
+        const cacheKeys = keys.map((key) => this.transformIntoCacheKey(key.join(':')));
+        const replies = await this.pipelinePerNode(
+            cacheKeys,
+            (pipe, cacheKey) => pipe.del(cacheKey),
+        );
+        cacheKeys.forEach((cacheKey, idx) => {
+            if (replies[idx][1]) {
+                this.emit('delete', cacheKey);
+            }
         });
+    };
+
+    /**
+     * Attempts to acquire a lock on a key
+     * @returns A token identifying the lock holder if the lock was acquired, `null` otherwise
+     */
+    public acquireLock = async (keys: string[], ttl: TTL) => {
+        const lockKey = this.transformIntoLockKey(keys);
+        const token = randomUUID();
+
+        const result = await this.redis.set(
+            lockKey,
+            token,
+            RedisExpiryModes.Milliseconds,
+            ttlToMilliseconds(ttl, this.namespace),
+            'NX',
+        );
+
+        if (result !== 'OK') {
+            return null;
+        }
+
+        this.logger.debug(`[SugarCache:${this.namespace}] lock ${lockKey} acquired`);
+        return token;
+    };
+
+    /**
+     * Releases a lock on a key, if it is still held by the owner of the token
+     */
+    public releaseLock = async (keys: string[], token: string) => {
+        const lockKey = this.transformIntoLockKey(keys);
+
+        await this.redis.eval(RedisCache.RELEASE_LOCK_SCRIPT, 1, lockKey, token);
 
-        await pipe.exec();
+        this.logger.debug(`[SugarCache:${this.namespace}] lock ${lockKey} released`);
     };
 }
@@ -0,0 +1,13 @@
+// NOTE: Required rather than imported, since the typings shipped with `cluster-key-slot`
+// don't compile. ioredis routes commands and validates pipelines with the same package,
+// so slots computed here always agree with it
+const calculate: (_key: string | Buffer) => number = require('cluster-key-slot');
+
+/**
+ * Computes the cluster slot of a key. Only the hashtag (the content of the first non-empty
+ * `{...}`) is hashed when the key has one.
+ * https://redis.io/docs/reference/cluster-spec/#key-distribution-model
+ */
+const calculateSlot = (cacheKey: string) => calculate(cacheKey);
+
+export default calculateSlot;
@@ -0,0 +1,120 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { KeyEvent } from '../types';
+import { Span, SpanAttributes, Tracer } from '../types/tracing';
+import CacheEvents from './events';
+import { CacheOperation } from './metrics';
+
+// Value of `SpanStatusCode.ERROR`, since `@opentelemetry/api` is an optional peer dependency
+const SPAN_STATUS_ERROR = 2;
+
+// What a cache operation read or wrote so far, recorded on its span once it ends
+type OperationSpan = {
+    ended: boolean,
+    payloadSize: number,
+    hits: number,
+    hitLayers: Set<string>,
+};
+
+/**
+ * Traces cache operations and memoized executions with an OpenTelemetry tracer.
+ *
+ * Spans are started as active spans, so they are nested under the caller's spans
+ * (and spans of operations run by memoized functions are nested under their execution)
+ * whenever a context manager is registered
+ */
+export default class CacheTracing {
+    private tracer: Tracer;
+
+    private namespace: string;
+
+    // Span of the cache operation being run in the current async context
+    private operationSpans = new AsyncLocalStorage<OperationSpan>();
+
+    constructor(tracer: Tracer, namespace: string, events: CacheEvents) {
+        this.tracer = tracer;
+        this.namespace = namespace;
+        // NOTE: Layers report the size of values as they read and write them
+        events.on('hit', this.recordPayloadSize);
+        events.on('set', this.recordPayloadSize);
+    }
+
+    private recordPayloadSize = ({ size }: KeyEvent) => {
+        const operationSpan = this.operationSpans.getStore();
+        if (operationSpan && !operationSpan.ended && size !== undefined) {
+            operationSpan.payloadSize += size;
+        }
+    };
+
+    /**
+     * Runs a function in an active span, recording errors on the span if it fails
+     */
+    private inSpan = async <T>(
+        name: string,
+        attributes: SpanAttributes,
+        execute: (_span: Span) => Promise<T>,
+    ) => this.tracer.startActiveSpan(name, { attributes }, async (span) => {
+        try {
+            return await execute(span);
+        } catch (err) {
+            span.recordException(err);
+            span.setStatus({ code: SPAN_STATUS_ERROR, message: err?.message });
+            throw err;
+        } finally {
+            span.end();
+        }
+    });
+
+    /**
+     * Runs a cache operation in a span
+     * @param keyCount Number of keys the operation is run on, if any
+     */
+    public traceOperation = async <T>(
+        operation: CacheOperation,
+        keyCount: number | undefined,
+        execute: () => Promise<T>,
+    ) => this.inSpan(
+        `sugarcache.${operation}`,
+        {
+            'sugarcache.namespace': this.namespace,
+            ...(keyCount !== undefined ? { 'sugarcache.key_count': keyCount } : {}),
+        },
+        async (span) => {
+            const operationSpan: OperationSpan = {
+                ended: false,
+                payloadSize: 0,
+                hits: 0,
+                hitLayers: new Set(),
+            };
+            try {
+                return await this.operationSpans.run(operationSpan, execute);
+            } finally {
+                operationSpan.ended = true;
+                span.setAttribute('sugarcache.payload_size', operationSpan.payloadSize);
+                if (operation === 'get' || operation === 'mget') {
+                    span.setAttribute('sugarcache.hits', operationSpan.hits);
+                    span.setAttribute('sugarcache.hit_layers', [...operationSpan.hitLayers]);
+                }
+            }
+        },
+    );
+
+    /**
+     * Records keys found on a layer by the operation being traced
+     */
+    public recordHits = (layer: string, hits: number) => {
+        const operationSpan = this.operationSpans.getStore();
+        if (operationSpan && !operationSpan.ended && hits) {
+            operationSpan.hits += hits;
+            operationSpan.hitLayers.add(layer);
+        }
+    };
+
+    /**
+     * Runs a memoized function in a span
+     */
+    public traceExecution = async <T>(fnName: string, execute: () => Promise<T>) => this.inSpan(
+        'sugarcache.memoized_execution',
+        { 'sugarcache.namespace': this.namespace, 'sugarcache.function': fnName },
+        execute,
+    );
+}
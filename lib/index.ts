@@ -1,4 +1,17 @@
 import SugarCache from './main';
 
 export * from './types';
+export {
+    jsonSerializer,
+    typedJsonSerializer,
+    msgpackSerializer,
+} from './serialization/serializers';
+export type {
+    StorageAdapter,
+    EntryWithTTL,
+    LayerContext,
+    LayerFactory,
+} from './cache/base';
+export { memoryLayer, redisLayer } from './cache/layers';
+export { default as FakeRedis } from './cache/fake-redis';
 export default SugarCache;
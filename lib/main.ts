@@ -6,40 +6,92 @@
 import { Cluster, Redis } from 'ioredis';
 import readFunctionParams from '@captemulation/get-parameter-names';
 import MultilevelCache from './cache';
+import { ttlToMilliseconds } from './cache/base';
+import { escapeGlob } from './cache/pattern';
+import encodeKeyComponent from './cache/keys';
+import CacheMetrics from './cache/metrics';
 import { dummyLogger, Logger } from './types/logging';
 import {
     MemoizeParams,
+    MemoizeBatchParams,
     CreateCacheOptions,
     TTL,
     CachewiseTTL,
     KeysObject,
     UpdateMemoizedParams,
+    MemoizeLockOptions,
+    CacheResult,
+    CacheEntry,
+    SetOptions,
+    MsetOptions,
+    TagsResolver,
+    ClearOptions,
+    TTLResolver,
+    ValueTTLResolver,
+    KeysResolver,
+    InvalidateMemoizedParams,
+    CacheEventName,
+    CacheEventHandler,
 } from './types';
-import { DecoratedMethod } from './types/internals';
+import { DecoratedMethod, PendingBatch, ReadOptions } from './types/internals';
 
+/**
+ * @typeParam KeyNames Names of the keys values are cached by, inferred from `options.keys`
+ * @typeParam Value Type of the values cached, e.g. `SugarCache<['userId'], User>`
+ */
 export default class SugarCache<
-    const KeyNames extends readonly string[],
+    const KeyNames extends readonly string[] = readonly string[],
+    Value = any,
     KeyName extends string = KeyNames[number],
     Keys extends KeysObject<KeyName> = KeysObject<KeyName>,
 > {
     private namespace: string;
 
-    private cache: MultilevelCache;
+    private cache: MultilevelCache<Value>;
+
+    private metrics?: CacheMetrics;
 
     private hashtags: Set<KeyName>;
 
     private keyNames: KeyNames;
 
+    private hashThreshold?: number;
+
+    // Whether keys are also read and deleted in the format used before keys were encoded
+    private legacyKeyReads: boolean;
+
+    private pendingExecutions = new Map<string, Promise<any>>();
+
+    private pendingRevalidations = new Map<string, Promise<any>>();
+
+    // Whether memoized values read from redis are backfilled into memory by default
+    private backfillByDefault: boolean;
+
+    // Upgrades values written with older versions, used by memoized functions that only
+    // override the version
+    private migrate?: (_value: any, _fromVersion: number) => any;
+
+    /**
+     * @param redis Redis connection backing the cache. Without one, values are only cached
+     * in memory (or on the configured `layers`), and locks are only held within this instance
+     */
     constructor(
-        redis: Redis | Cluster,
+        redis: Redis | Cluster | null,
         options: CreateCacheOptions<KeyNames>,
         readonly logger: Logger = dummyLogger,
     ) {
         this.keyNames = options.keys;
-        this.cache = new MultilevelCache(options, redis, logger);
+        this.cache = new MultilevelCache<Value>(options, redis, logger);
         this.namespace = this.cache.namespace;
+        if (options.prometheusClient) {
+            this.metrics = new CacheMetrics(options.prometheusClient, this.namespace);
+        }
 
         const { hashtags } = options;
+        this.hashThreshold = options.keyEncoding?.hashThreshold;
+        this.legacyKeyReads = options.keyEncoding?.legacyReads ?? false;
+        this.backfillByDefault = options.inMemoryCache?.backfill !== undefined;
+        this.migrate = options.migrate;
 
         this.hashtags = new Set();
         if (hashtags) {
@@ -49,12 +101,16 @@ export default class SugarCache<
         }
     }
 
-    private validateKeys = (targetFn: any, fnName: string) => {
+    private validateKeys = (
+        targetFn: any,
+        fnName: string,
+        keyNames: readonly string[] = this.keyNames,
+    ) => {
         const params = readFunctionParams(targetFn);
-        const missingKeys = this.keyNames.filter((k) => !(params.includes(k)));
+        const missingKeys = keyNames.filter((k) => !(params.includes(k)));
 
         if (missingKeys.length) {
-            this.logger.debug(`[SugarCache:${this.namespace}] Function params - ${JSON.stringify(params)}, cacheKeys - ${JSON.stringify(this.keyNames)}, missing keys - ${JSON.stringify(missingKeys)}`);
+            this.logger.debug(`[SugarCache:${this.namespace}] Function params - ${JSON.stringify(params)}, cacheKeys - ${JSON.stringify(keyNames)}, missing keys - ${JSON.stringify(missingKeys)}`);
             throw new Error(`[SugarCache:${this.namespace}] Keys passed to decorator for function "${fnName}" do not match function params. Args passed- ${JSON.stringify(params)}. Required keys not found- ${JSON.stringify(missingKeys)}`);
         }
     };
@@ -88,41 +144,147 @@ export default class SugarCache<
         return out;
     };
 
+    private encodeKeyValues = (keys: Keys) => {
+        const out = {} as Keys;
+        Object.keys(keys).forEach((key: KeyName) => {
+            out[key] = encodeKeyComponent(keys[key], this.hashThreshold) as any;
+        });
+        return out;
+    };
+
     private transformKeysIntoKeyList = (keys: Keys) => this.flattenKeysIntoKeyList(
-        this.wrapValuesInHashtags(keys),
+        this.wrapValuesInHashtags(this.encodeKeyValues(keys)),
+    );
+
+    /**
+     * Key list in the format used before key values were encoded, if legacy reads are enabled
+     * and it differs from the current one
+     */
+    private transformKeysIntoLegacyKeyList = (keys: Keys) => {
+        if (!this.legacyKeyReads) {
+            return null;
+        }
+        const keyList = this.transformKeysIntoKeyList(keys);
+        const legacyKeyList = this.flattenKeysIntoKeyList(this.wrapValuesInHashtags(keys));
+        return legacyKeyList.some((component, idx) => String(component) !== keyList[idx])
+            ? legacyKeyList
+            : null;
+    };
+
+    /**
+     * Builds a glob-style pattern for each component of the key, matching any value
+     * for keys that aren't specified
+     */
+    private transformPartialKeysIntoPattern = (keys: Partial<Keys>, legacy = false) => {
+        const unknownKeys = Object.keys(keys).filter((k) => !this.keyNames.includes(k));
+        if (unknownKeys.length) {
+            throw new Error(`[SugarCache:${this.namespace}] Unknown keys ${JSON.stringify(unknownKeys)}`);
+        }
+
+        return [...this.keyNames]
+            // Sort so we always get keys in the same order
+            .sort((keyA, keyB) => keyA.localeCompare(keyB))
+            .map((keyName: KeyName) => {
+                const value = keys[keyName];
+                if (value === undefined) {
+                    return '*';
+                }
+                const escapedValue = escapeGlob(legacy
+                    ? String(value)
+                    : encodeKeyComponent(value as string, this.hashThreshold));
+                return this.hashtags.has(keyName) ? `{${escapedValue}}` : escapedValue;
+            });
+    };
+
+    /**
+     * Reads keys that weren't found again in the legacy format, if they have one
+     */
+    private withLegacyFallback = async (
+        keys: Keys[],
+        entries: (CacheEntry<Value> | null)[],
+        options?: ReadOptions,
+    ) => {
+        if (!this.legacyKeyReads) {
+            return entries;
+        }
+        const legacyIdxs: number[] = [];
+        const legacyKeyLists: string[][] = [];
+        entries.forEach((entry, idx) => {
+            const legacyKeyList = !entry && this.transformKeysIntoLegacyKeyList(keys[idx]);
+            if (legacyKeyList) {
+                legacyIdxs.push(idx);
+                legacyKeyLists.push(legacyKeyList);
+            }
+        });
+        if (!legacyKeyLists.length) {
+            return entries;
+        }
+
+        const legacyEntries = await this.cache.mget(legacyKeyLists, options);
+        const out = [...entries];
+        legacyIdxs.forEach((idx, i) => {
+            out[idx] = legacyEntries[i];
+        });
+        return out;
+    };
+
+    private readEntry = async (keys: Keys, options?: ReadOptions) => {
+        const entry = await this.cache.get(this.transformKeysIntoKeyList(keys), options);
+        return (await this.withLegacyFallback([keys], [entry], options))[0];
+    };
+
+    private readEntries = async (keys: Keys[]) => this.withLegacyFallback(
+        keys,
+        await this.cache.mget(keys.map(this.transformKeysIntoKeyList)),
     );
 
     // ----------- Public API Methods -----------
 
+    private static toResult = <T>(entry: CacheEntry<T> | null): CacheResult<T> => (
+        entry ? { hit: true, value: entry.value } : { hit: false }
+    );
+
     /**
      * Reads an element stored at a key
      * @param keys Cache keys for the element you're trying to fetch
-     * @returns The object stored at the given key; `null` if no such object is found
+     * @returns The object stored at the given key; `null` if no such object is found.
+     * Use `getResult` to tell a stored `null` apart from a missing value
      */
     public get = async (
         keys: Keys,
-    ) => this.cache.get(this.transformKeysIntoKeyList(keys));
+    ) => (await this.readEntry(keys))?.value ?? null;
+
+    /**
+     * Reads an element stored at a key
+     * @param keys Cache keys for the element you're trying to fetch
+     * @returns `{ hit: true, value }` if a value is stored at the given key
+     * (including `null` and other falsy values), `{ hit: false }` otherwise
+     */
+    public getResult = async (
+        keys: Keys,
+    ) => SugarCache.toResult(await this.readEntry(keys));
 
     /**
      * Upserts a value in the cache at the specified key
      * @param keys Cache keys at which the value has to be stored
      * @param value The value to be stored at the key
-     * @param ttl TTL of values set in cache.
-     * You can specify different TTLs for in-memory and redis caches
+     * @param ttl TTL of values set in cache, or a function that computes it from the value.
+     * You can specify different TTLs for each layer (like in-memory and redis caches)
+     * @param options.tags Tags to associate the value with, see `invalidateTags`
+     * @param options.version Version of the shape of the value, see `CreateCacheOptions.version`
      */
     public set = async (
         keys: Keys,
-        value: any,
-        ttl: TTL | CachewiseTTL,
-    ) => {
-        const flattenedKeyList = this.transformKeysIntoKeyList(keys);
-        if ((ttl as CachewiseTTL).redis) {
-            const ttlOptions = ttl as CachewiseTTL;
-            return this.cache.set(flattenedKeyList, value, ttlOptions);
-        }
-        const ttlTyped = ttl as TTL;
-        return this.cache.set(flattenedKeyList, value, { memory: ttlTyped, redis: ttlTyped });
-    };
+        value: Value,
+        ttl: TTL | CachewiseTTL | ValueTTLResolver<Value>,
+        options: SetOptions = {},
+    ) => this.cache.set(
+        this.transformKeysIntoKeyList(keys),
+        value,
+        typeof ttl === 'function' ? ttl(value) : ttl,
+        options.tags,
+        options.version,
+    );
 
     /**
      * Deletes a value from the cache
@@ -130,62 +292,180 @@ export default class SugarCache<
      */
     public del = async (
         keys: Keys,
-    ) => this.cache.del(this.transformKeysIntoKeyList(keys));
+    ) => {
+        await this.cache.del(this.transformKeysIntoKeyList(keys));
+        const legacyKeyList = this.transformKeysIntoLegacyKeyList(keys);
+        if (legacyKeyList) {
+            await this.cache.del(legacyKeyList);
+        }
+    };
 
     /**
      * Deletes all values in the cache
      * Bear in mind that this will only remove values from redis that are
      * under the namespace of the cache object
      * This is an expensive operation (since it operates on all keys inside a namespace)
-     * and should be used with care
+     * and should be used with care. Keys are deleted in batches without blocking redis,
+     * and the operation can be cancelled through `options.signal`
+     * @returns The number of keys deleted from redis
      */
-    public clear = async () => {
-        await this.cache.clear();
-    };
+    public clear = async (options: ClearOptions = {}) => this.cache.clear(options);
 
     /**
      * Performs an efficient batched read operation on the keys provided.
      * @param keys List of keys to fetch results for
      * @returns Values set at the given keys. Returns `null` for each key that isn't set
      */
-    public mget = async (keys: Keys[]) => this.cache.mget(keys.map(this.transformKeysIntoKeyList));
+    public mget = async (keys: Keys[]) => (
+        await this.readEntries(keys)
+    ).map((entry) => entry?.value ?? null);
+
+    /**
+     * Performs an efficient batched read operation on the keys provided.
+     * @param keys List of keys to fetch results for
+     * @returns A result for each key - `{ hit: true, value }` if a value is stored at the key,
+     * `{ hit: false }` otherwise
+     */
+    public mgetResults = async (keys: Keys[]) => (
+        await this.readEntries(keys)
+    ).map(SugarCache.toResult);
 
     /**
      * Performs an efficient batched delete operation on the keys provided.
      * @param keys List of keys to perform delete for.
      */
-    public mdel = async (keys: Keys[]) => this.cache.mdel(keys.map(this.transformKeysIntoKeyList));
+    public mdel = async (keys: Keys[]) => this.cache.mdel([
+        ...keys.map(this.transformKeysIntoKeyList),
+        ...keys.map(this.transformKeysIntoLegacyKeyList).filter(Boolean),
+    ]);
 
     /**
      * Performs an efficient batched set operation for the key-value pairs provided
      * @param keys List of keys
      * @param values Ordered list of values.
      * Every value is expected to positionally map to an element in `keys`
-     * @param ttl Time-to-live for values in cache
+     * @param ttl Time-to-live for values in cache, or a function that computes it for each value
+     * @param options.tags Tags to associate the values with, see `invalidateTags`.
+     * Either a list of tags applied to every value, or a function that computes tags for each value
      */
     public mset = async (
         keys: Keys[],
-        values: any[],
-        ttl: TTL | CachewiseTTL,
+        values: Value[],
+        ttl: TTL | CachewiseTTL | ValueTTLResolver<Value>,
+        options: MsetOptions<Keys, Value> = {},
     ) => {
         const flattenedKeyLists = keys.map(this.transformKeysIntoKeyList);
-        if ((ttl as CachewiseTTL).redis) {
-            const ttlOptions = ttl as CachewiseTTL;
-            return this.cache.mset(flattenedKeyLists, values, ttlOptions);
+        const { tags } = options;
+        const tagLists = tags && keys.map((key, idx) => (
+            typeof tags === 'function' ? tags(key, values[idx]) : tags
+        ));
+        const ttls = values.map((value) => (typeof ttl === 'function' ? ttl(value) : ttl));
+
+        return this.cache.mset(flattenedKeyLists, values, ttls, tagLists);
+    };
+
+    /**
+     * Deletes all values whose keys match the given subset of keys.
+     * For instance, on a cache with keys `['orgId', 'userId']`,
+     * `delWhere({ orgId: '42' })` deletes values for every `userId` under that `orgId`.
+     * Like `clear`, this scans all keys inside the namespace and should be used with care
+     * @param keys Subset of cache keys to match
+     * @returns The number of values deleted from redis
+     */
+    public delWhere = async (
+        keys: Partial<Keys>,
+    ) => {
+        const pattern = this.transformPartialKeysIntoPattern(keys);
+        const deleted = await this.cache.delWhere(pattern);
+
+        if (!this.legacyKeyReads) {
+            return deleted;
         }
-        const ttlTyped = ttl as TTL;
-        return this.cache.mset(flattenedKeyLists, values, {
-            redis: ttlTyped,
-            memory: ttlTyped,
-        });
+        const legacyPattern = this.transformPartialKeysIntoPattern(keys, true);
+        if (legacyPattern.every((component, idx) => component === pattern[idx])) {
+            return deleted;
+        }
+        return deleted + await this.cache.delWhere(legacyPattern);
+    };
+
+    /**
+     * Deletes all values associated with any of the given tags
+     * @param tags Tags to invalidate
+     */
+    public invalidateTags = async (tags: string[]) => {
+        await this.cache.invalidateTags(tags);
+    };
+
+    /**
+     * Stops all background work done by the cache (expiry sweeps, invalidation subscriptions),
+     * for a clean shutdown. The redis connection passed to the cache is not closed.
+     * The cache can still be used after this, but expired in-memory entries are only removed
+     * when they are read
+     */
+    public close = async () => {
+        await this.cache.close();
+    };
+
+    /**
+     * Occupancy of the in-memory cache, along with the number of entries evicted from it
+     */
+    public inMemoryStats = () => this.cache.inMemoryStats();
+
+    /**
+     * Registers a handler for lifecycle events of the cache, like hits and misses on each layer.
+     * Handlers are called synchronously but never awaited, and errors they throw are logged
+     * rather than failing the cache operation
+     * @param name One of `hit`, `miss`, `set`, `delete`, `expire`, `evict`, `error` or `clear`
+     */
+    public on = <Name extends CacheEventName>(name: Name, handler: CacheEventHandler<Name>) => {
+        this.cache.events.on(name, handler);
+    };
+
+    /**
+     * Removes a handler registered with `on`
+     */
+    public off = <Name extends CacheEventName>(name: Name, handler: CacheEventHandler<Name>) => {
+        this.cache.events.off(name, handler);
     };
 
     // ----------- Decorator Methods -----------
 
-    private extractKeysFromFunc(namedArgs: any) {
+    /**
+     * Verifies that keys can be read from the decorated function's params,
+     * unless they are computed by a resolver
+     */
+    private validateDecoratedKeys = (
+        targetFn: any,
+        fnName: string,
+        keysResolver?: KeysResolver<Keys>,
+    ) => {
+        if (keysResolver) {
+            return;
+        }
+        // NOTE(Shantanu)
+        // Currently it is not possible to make the type system aware of
+        // function parameter names, so we can't throw type errors if keyNames are missing
+        // from function params. Current implementation only verifies at compile time
+        // Once https://github.com/microsoft/TypeScript/issues/44939 is resolved this can be implemented
+        this.validateKeys(targetFn, fnName);
+    };
+
+    /**
+     * Computes keys for a call to a decorated function, with the resolver if provided,
+     * or from the params of the same names otherwise
+     */
+    private resolveDecoratedKeys = (
+        args: IArguments,
+        originalFn: any,
+        keysResolver?: KeysResolver<Keys>,
+    ) => (keysResolver
+        ? this.extractKeysFromFunc(keysResolver(...Array.from(args)))
+        : this.getKeysFromFunc(args, originalFn));
+
+    private extractKeysFromFunc(namedArgs: any, keyNames: readonly string[] = this.keyNames) {
         const out = {} as Keys;
 
-        this.keyNames.forEach((keyName) => {
+        keyNames.forEach((keyName) => {
             const variableValue = namedArgs[keyName];
             if (variableValue === undefined) {
                 throw new Error(`Invalid arguments passed to function- variable ${keyName} is required`);
@@ -200,21 +480,148 @@ export default class SugarCache<
     getKeysFromFunc(
         args: IArguments,
         originalFn: any,
+        keyNames?: readonly KeyName[],
     ) {
         const namedArguments = SugarCache.transformIntoNamedArgs(args, originalFn);
         return this.extractKeysFromFunc(
             namedArguments,
+            keyNames,
         );
     }
 
     private static ORIGINAL_FN_PROPKEY = 'sugarcache-originalFn';
 
+    private static resolveTags = (
+        tags: string[] | TagsResolver | undefined,
+        args: IArguments,
+        result?: any,
+    ) => (typeof tags === 'function' ? tags(Array.from(args), result) : tags);
+
+    private static resolveTTL = (
+        ttl: TTL | CachewiseTTL | TTLResolver,
+        args: IArguments,
+        result: any,
+    ) => (typeof ttl === 'function' ? ttl(Array.from(args), result) : ttl);
+
+    /**
+     * Executes a memoized function, timing and tracing it when configured
+     */
+    private executeMemoized = <T>(fnName: string, execute: () => Promise<T>) => {
+        const timed = () => (
+            this.metrics ? this.metrics.timeExecution(fnName, execute) : execute()
+        );
+        const { tracing } = this.cache;
+        return tracing ? tracing.traceExecution(fnName, timed) : timed();
+    };
+
+    /**
+     * Ensures concurrent calls for the same key share a single pending execution
+     */
+    private executeOnce = async <T>(
+        keys: Keys,
+        execute: () => Promise<T>,
+        pendingExecutions = this.pendingExecutions,
+    ): Promise<T> => {
+        const executionKey = JSON.stringify(this.transformKeysIntoKeyList(keys));
+
+        const pendingExecution = pendingExecutions.get(executionKey);
+        if (pendingExecution) {
+            return pendingExecution;
+        }
+
+        const execution = execute().finally(() => {
+            pendingExecutions.delete(executionKey);
+        });
+        pendingExecutions.set(executionKey, execution);
+
+        return execution;
+    };
+
+    /**
+     * Re-executes a function in the background to refresh a stale value.
+     * Only one refresh runs at a time per key, and if a lock is configured,
+     * refreshes are skipped while another instance holds it
+     */
+    private revalidate = (
+        keys: Keys,
+        lock: MemoizeLockOptions | undefined,
+        execute: () => Promise<any>,
+    ) => {
+        const keyList = this.transformKeysIntoKeyList(keys);
+
+        this.executeOnce(keys, async () => {
+            if (!lock) {
+                return execute();
+            }
+
+            const token = await this.cache.acquireLock(keyList, lock.timeout);
+            if (!token) {
+                return null;
+            }
+            try {
+                return await execute();
+            } finally {
+                await this.cache.releaseLock(keyList, token);
+            }
+        }, this.pendingRevalidations)
+            .catch((err) => this.logger.error(`[SugarCache:${this.namespace}] Unable to revalidate stale value - ${err}`));
+    };
+
+    /**
+     * Executes a function while holding a distributed lock on the key.
+     * If the lock is held by someone else, polls the cache for the value until `waitTimeout`
+     */
+    private executeWithLock = async (
+        keys: Keys,
+        lock: MemoizeLockOptions,
+        execute: () => Promise<Value>,
+    ): Promise<Value> => {
+        const keyList = this.transformKeysIntoKeyList(keys);
+        const pollInterval = ttlToMilliseconds(lock.pollInterval ?? 50, this.namespace);
+        const deadline = Date.now() + ttlToMilliseconds(lock.waitTimeout, this.namespace);
+
+        const attempt = async (): Promise<Value> => {
+            const token = await this.cache.acquireLock(keyList, lock.timeout);
+            if (token) {
+                try {
+                    // Value might have been set by the previous lock holder since our last read
+                    const cachedResult = await this.getResult(keys);
+                    if (cachedResult.hit) {
+                        return cachedResult.value;
+                    }
+                    return await execute();
+                } finally {
+                    await this.cache.releaseLock(keyList, token)
+                        .catch((err) => this.logger.warn(`[SugarCache:${this.namespace}] Unable to release lock - ${err}`));
+                }
+            }
+
+            if (Date.now() >= deadline) {
+                if (lock.onWaitTimeout === 'throw') {
+                    throw new Error(`[SugarCache:${this.namespace}] Timed out waiting for value to be computed by lock holder`);
+                }
+                this.logger.debug(`[SugarCache:${this.namespace}] Timed out waiting for lock holder, executing function`);
+                return execute();
+            }
+
+            await new Promise((resolve) => { setTimeout(resolve, pollInterval); });
+
+            const cachedResult = await this.getResult(keys);
+            if (cachedResult.hit) {
+                return cachedResult.value;
+            }
+            return attempt();
+        };
+
+        return attempt();
+    };
+
     /**
      * Decorator to read a value from cache if it exists
      * If it doesn't the target function is called and the return value is set on cache
      */
     memoize<TThis, TArgs extends any[], TReturn>(
-        params: MemoizeParams,
+        params: MemoizeParams<Keys, TArgs>,
     ): DecoratedMethod<TThis, TArgs, TReturn> {
         const cacheInstance = this;
         return (
@@ -227,28 +634,244 @@ export default class SugarCache<
             )?.value || target;
             const currentFn = target;
 
-            const { ttl } = params;
+            const {
+                ttl,
+                lock,
+                freshTTL,
+                negativeCache,
+                tags,
+                backfill = cacheInstance.backfillByDefault,
+                slidingExpiration,
+                version,
+                migrate,
+            } = params;
+            const isNegativeResult = negativeCache?.isNegative
+                ?? ((result: any) => result === null || result === undefined);
 
-            // NOTE(Shantanu)
-            // Currently it is not possible to make the type system aware of
-            // function parameter names, so we can't throw type errors if keyNames are missing
-            // from function params. Current implementation only verifies at compile time
-            // Once https://github.com/microsoft/TypeScript/issues/44939 is resolved this can be implemented
-            cacheInstance.validateKeys(originalFn, context.name as string);
+            cacheInstance.validateDecoratedKeys(originalFn, context.name as string, params.keys);
 
             const out = async function (): Promise<TReturn> {
-                const keys = cacheInstance.getKeysFromFunc(arguments, originalFn);
+                const args = arguments;
+                const keys = cacheInstance.resolveDecoratedKeys(args, originalFn, params.keys);
+                const valueTTL = (value: any) => SugarCache.resolveTTL(
+                    negativeCache && isNegativeResult(value) ? negativeCache.ttl : ttl,
+                    args,
+                    value,
+                );
 
-                const cachedResult = await cacheInstance.get(keys);
-                if (cachedResult !== null) {
-                    return cachedResult;
+                const execute = async () => {
+                    const result = await cacheInstance.executeMemoized(
+                        context.name as string,
+                        async () => currentFn.apply(this, args),
+                    );
+                    await cacheInstance.set(keys, result, valueTTL(result), {
+                        tags: SugarCache.resolveTags(tags, args, result),
+                        version,
+                    })
+                        .catch((err) => { throw new Error(`[SugarCache:${cacheInstance.namespace}] Unable to set value to cache - ${err}`); });
+
+                    return result;
+                };
+
+                return cacheInstance.executeOnce(keys, async () => {
+                    const cachedEntry = await cacheInstance.readEntry(
+                        keys,
+                        {
+                            // Values read from lower layers are kept in the ones above for
+                            // their TTL on those layers
+                            backfillTTL: backfill ? valueTTL : null,
+                            sliding: slidingExpiration && {
+                                ttl: valueTTL,
+                                maxLifetime: slidingExpiration.maxLifetime,
+                            },
+                            versioning: version === undefined ? undefined : {
+                                version,
+                                migrate: migrate ?? cacheInstance.migrate,
+                            },
+                        },
+                    );
+                    if (cachedEntry) {
+                        if (
+                            freshTTL !== undefined
+                            && Date.now() - cachedEntry.writtenAt
+                                >= ttlToMilliseconds(freshTTL, cacheInstance.namespace)
+                        ) {
+                            cacheInstance.logger.debug(`[SugarCache:${cacheInstance.namespace}] Serving stale value, revalidating in background`);
+                            cacheInstance.revalidate(keys, lock, execute);
+                        }
+                        return cachedEntry.value;
+                    }
+
+                    if (!lock) {
+                        return execute();
+                    }
+                    return cacheInstance.executeWithLock(keys, lock, execute);
+                });
+            };
+
+            // Hack to make decorator composable
+            Object.defineProperty(out, SugarCache.ORIGINAL_FN_PROPKEY, {
+                value: originalFn,
+            });
+
+            return out;
+        };
+    }
+
+    /**
+     * Reads the values memoized for a batch of items, executes the decorated function
+     * for the items that weren't found and memoizes its results.
+     * Repeated items are only read and computed once
+     * @returns Values for each item, in the order of `items`
+     */
+    private loadBatch = async (
+        params: MemoizeBatchParams<Keys>,
+        fnName: string,
+        items: any[],
+        args: any[],
+        execute: (_items: any[]) => Promise<any[]>,
+    ) => {
+        const keys = items.map((item) => this.extractKeysFromFunc(params.keys(item, args)));
+        const keyIds = keys.map((k) => JSON.stringify(this.transformKeysIntoKeyList(k)));
+        // Index of the first occurrence of every key
+        const firstIndices = new Map<string, number>();
+        keyIds.forEach((keyId, idx) => {
+            if (!firstIndices.has(keyId)) {
+                firstIndices.set(keyId, idx);
+            }
+        });
+        const uniqueIndices = [...firstIndices.values()];
+
+        const values = new Map<string, any>();
+        const missingIndices: number[] = [];
+        (await this.mgetResults(uniqueIndices.map((idx) => keys[idx])))
+            .forEach((result, i) => {
+                if (result.hit) {
+                    values.set(keyIds[uniqueIndices[i]], result.value);
+                } else {
+                    missingIndices.push(uniqueIndices[i]);
                 }
+            });
 
-                const result = await currentFn.apply(this, arguments);
-                await cacheInstance.set(keys, result, ttl)
-                    .catch((err) => { throw new Error(`[SugarCache:${cacheInstance.namespace}] Unable to set value to cache - ${err}`); });
+        if (missingIndices.length) {
+            const missingItems = missingIndices.map((idx) => items[idx]);
+            const results = await execute(missingItems);
+            if (!Array.isArray(results) || results.length !== missingItems.length) {
+                throw new Error(`[SugarCache:${this.namespace}] Function "${fnName}" returned ${Array.isArray(results) ? results.length : 'no'} results for ${missingItems.length} items. Results must positionally map to the items passed`);
+            }
 
-                return result;
+            const { ttl, tags } = params;
+            await this.cache.mset(
+                missingIndices.map((idx) => this.transformKeysIntoKeyList(keys[idx])),
+                results,
+                results.map((result, i) => (
+                    typeof ttl === 'function' ? ttl(missingItems[i], result) : ttl
+                )),
+                tags && results.map((result, i) => (
+                    typeof tags === 'function' ? tags(missingItems[i], result) : tags
+                )),
+            )
+                .catch((err) => { throw new Error(`[SugarCache:${this.namespace}] Unable to set values to cache - ${err}`); });
+
+            missingIndices.forEach((idx, i) => values.set(keyIds[idx], results[i]));
+        }
+
+        return keyIds.map((keyId) => values.get(keyId));
+    };
+
+    /**
+     * Decorator for functions that fetch a list of items (like `getUsers(userIds)`),
+     * memoizing the result of each item separately.
+     * Values memoized for items are read in a single batch, and the decorated function is only
+     * called with the items that weren't found. The decorated function must return results
+     * positionally mapped to the items it is called with, and results are returned in the order
+     * of the items passed
+     */
+    public memoizeBatch<TThis, TArgs extends any[], TReturn>(
+        params: MemoizeBatchParams<Keys, TArgs>,
+    ): DecoratedMethod<TThis, TArgs, TReturn> {
+        const cacheInstance = this;
+        return (
+            target: (_this: TThis, ..._args: TArgs) => TReturn,
+            context: ClassMethodDecoratorContext<TThis, (_this: TThis, ..._args: TArgs) => any>,
+        ) => {
+            const originalFn = Object.getOwnPropertyDescriptor(
+                target,
+                SugarCache.ORIGINAL_FN_PROPKEY,
+            )?.value || target;
+            const currentFn = target;
+            const fnName = context.name as string;
+            const { batchArg = 0, coalesce } = params;
+
+            // Batches being collected in the current tick, by `this` and the other args of calls
+            const pendingBatches = new Map<any, Map<string, PendingBatch>>();
+
+            const load = (thisArg: any, args: any[], items: any[]) => cacheInstance.loadBatch(
+                params,
+                fnName,
+                items,
+                args,
+                async (missingItems) => {
+                    const batchArgs = [...args];
+                    batchArgs[batchArg] = missingItems;
+                    return cacheInstance.executeMemoized(
+                        fnName,
+                        async () => currentFn.apply(thisArg, batchArgs),
+                    );
+                },
+            );
+
+            const loadCoalesced = async (thisArg: any, args: any[], items: any[]) => {
+                let otherArgs: string;
+                try {
+                    otherArgs = JSON.stringify(args.filter((_, idx) => idx !== batchArg));
+                } catch (err) {
+                    // NOTE: Args that can't be serialized (BigInts, circular objects) can't be
+                    // compared with the args of other calls, so these calls aren't coalesced
+                    cacheInstance.logger.debug(`[SugarCache:${cacheInstance.namespace}] Not coalescing call to "${fnName}" - ${err}`);
+                    return load(thisArg, args, items);
+                }
+                if (!pendingBatches.has(thisArg)) {
+                    pendingBatches.set(thisArg, new Map());
+                }
+                const batches = pendingBatches.get(thisArg);
+
+                let batch = batches.get(otherArgs);
+                if (!batch) {
+                    const batchItems = [];
+                    batch = {
+                        items: batchItems,
+                        // Wait for calls made in the same tick, including ones made
+                        // after awaiting resolved promises, before loading the batch
+                        values: Promise.resolve()
+                            .then(() => new Promise((resolve) => { process.nextTick(resolve); }))
+                            .then(() => {
+                                batches.delete(otherArgs);
+                                if (!batches.size) {
+                                    pendingBatches.delete(thisArg);
+                                }
+                                return load(thisArg, args, batchItems);
+                            }),
+                    };
+                    batches.set(otherArgs, batch);
+                }
+
+                const offset = batch.items.length;
+                batch.items.push(...items);
+                return (await batch.values).slice(offset, offset + items.length);
+            };
+
+            const out = async function (): Promise<TReturn> {
+                const args = Array.from(arguments);
+                const items = args[batchArg];
+                if (!Array.isArray(items)) {
+                    throw new Error(`[SugarCache:${cacheInstance.namespace}] Argument ${batchArg} passed to function "${fnName}" is not a list of items`);
+                }
+                if (!items.length) {
+                    return [] as TReturn;
+                }
+
+                return (coalesce ? loadCoalesced : load)(this, args, items) as TReturn;
             };
 
             // Hack to make decorator composable
@@ -263,9 +886,11 @@ export default class SugarCache<
     /**
      * Decorator to remove memoized result at a key (computed from function args at runtime)
      * from cache.
+     * @param params.keys Computes cache keys from function args, see `memoize`
      */
-    public invalidateMemoized<TThis, TArgs extends any[], TReturn>()
-    : DecoratedMethod<TThis, TArgs, TReturn> {
+    public invalidateMemoized<TThis, TArgs extends any[], TReturn>(
+        params: InvalidateMemoizedParams<Keys, TArgs> = {},
+    ): DecoratedMethod<TThis, TArgs, TReturn> {
         const cacheInstance = this;
         return function (
             target: ((_this: TThis, ..._args: TArgs) => TReturn) & { metadata?: any },
@@ -277,15 +902,10 @@ export default class SugarCache<
             )?.value || target;
             const currentFn = target;
 
-            // NOTE(Shantanu)
-            // Currently it is not possible to make the type system aware of
-            // function parameter names, so we can't throw type errors if keyNames are missing
-            // from function params. Current implementation only verifies at compile time
-            // Once https://github.com/microsoft/TypeScript/issues/44939 is resolved this can be implemented
-            cacheInstance.validateKeys(originalFn, context.name as string);
+            cacheInstance.validateDecoratedKeys(originalFn, context.name as string, params.keys);
 
             const out = async function (): Promise<TReturn> {
-                const keys = cacheInstance.getKeysFromFunc(arguments, originalFn);
+                const keys = cacheInstance.resolveDecoratedKeys(arguments, originalFn, params.keys);
 
                 await cacheInstance.del(keys)
                     .catch((err) => { throw new Error(`[SugarCache:${cacheInstance.namespace}] Unable to delete value from cache - ${err}`); });
@@ -312,7 +932,7 @@ export default class SugarCache<
      * execute if a memoized value is found.
      */
     public updateMemoized<TThis, TArgs extends any[], TReturn>(
-        params: UpdateMemoizedParams,
+        params: UpdateMemoizedParams<Keys, TArgs>,
     ): DecoratedMethod<TThis, TArgs, TReturn> {
         const cacheInstance = this;
         return function (
@@ -325,16 +945,11 @@ export default class SugarCache<
             )?.value || target;
             const currentFn = target;
 
-            const { ttl } = params;
-            // NOTE(Shantanu)
-            // Currently it is not possible to make the type system aware of
-            // function parameter names, so we can't throw type errors if keyNames are missing
-            // from function params. Current implementation only verifies at compile time
-            // Once https://github.com/microsoft/TypeScript/issues/44939 is resolved this can be implemented
-            cacheInstance.validateKeys(originalFn, context.name as string);
+            const { ttl, tags, version } = params;
+            cacheInstance.validateDecoratedKeys(originalFn, context.name as string, params.keys);
 
             const out = async function (): Promise<TReturn> {
-                const keys = cacheInstance.getKeysFromFunc(arguments, originalFn);
+                const keys = cacheInstance.resolveDecoratedKeys(arguments, originalFn, params.keys);
                 const result = await currentFn.apply(this, arguments);
 
                 const value = result;
@@ -343,7 +958,11 @@ export default class SugarCache<
                 //    keys) ?? accumulator.initialValue;
                 //     value = accumulator.fn(memoizedValue, result);
                 // }
-                await cacheInstance.set(keys, value, ttl)
+                const valueTTL = SugarCache.resolveTTL(ttl, arguments, result);
+                await cacheInstance.set(keys, value, valueTTL, {
+                    tags: SugarCache.resolveTags(tags, arguments, result),
+                    version,
+                })
                     .catch((err) => { throw new Error(`[SugarCache:${cacheInstance.namespace}] Unable to set value to cache - ${err}`); });
 
                 return result;
@@ -357,4 +976,81 @@ export default class SugarCache<
             return out;
         };
     }
+
+    /**
+     * Decorator to remove all values associated with the given tags from cache
+     * whenever the decorated function is called.
+     * @param tags Tags to invalidate, or a function that computes them from function args
+     */
+    public invalidateMemoizedTags<TThis, TArgs extends any[], TReturn>(
+        tags: string[] | ((_args: any[]) => string[]),
+    ): DecoratedMethod<TThis, TArgs, TReturn> {
+        const cacheInstance = this;
+        return function (
+            target: ((_this: TThis, ..._args: TArgs) => TReturn) & { metadata?: any },
+        ) {
+            const originalFn = Object.getOwnPropertyDescriptor(
+                target,
+                SugarCache.ORIGINAL_FN_PROPKEY,
+            )?.value || target;
+            const currentFn = target;
+
+            const out = async function (): Promise<TReturn> {
+                await cacheInstance.invalidateTags(SugarCache.resolveTags(tags, arguments))
+                    .catch((err) => { throw new Error(`[SugarCache:${cacheInstance.namespace}] Unable to invalidate tags - ${err}`); });
+
+                const result = await currentFn.apply(this, arguments);
+
+                return result;
+            };
+
+            // Hack to make decorator composable
+            Object.defineProperty(out, SugarCache.ORIGINAL_FN_PROPKEY, {
+                value: originalFn,
+            });
+
+            return out;
+        };
+    }
+
+    /**
+     * Decorator to remove all memoized results matching a subset of keys
+     * (computed from function args at runtime) from cache. See `delWhere`.
+     * @param keyNames Subset of cache keys to match on, read from the function params
+     */
+    public invalidateMemoizedWhere<TThis, TArgs extends any[], TReturn>(
+        keyNames: readonly KeyName[],
+    ): DecoratedMethod<TThis, TArgs, TReturn> {
+        const cacheInstance = this;
+        return function (
+            target: ((_this: TThis, ..._args: TArgs) => TReturn) & { metadata?: any },
+            context: ClassMethodDecoratorContext<TThis, (_this: TThis, ..._args: TArgs) => any>,
+        ) {
+            const originalFn = Object.getOwnPropertyDescriptor(
+                target,
+                SugarCache.ORIGINAL_FN_PROPKEY,
+            )?.value || target;
+            const currentFn = target;
+
+            cacheInstance.validateKeys(originalFn, context.name as string, keyNames);
+
+            const out = async function (): Promise<TReturn> {
+                const keys = cacheInstance.getKeysFromFunc(arguments, originalFn, keyNames);
+
+                await cacheInstance.delWhere(keys)
+                    .catch((err) => { throw new Error(`[SugarCache:${cacheInstance.namespace}] Unable to delete values from cache - ${err}`); });
+
+                const result = await currentFn.apply(this, arguments);
+
+                return result;
+            };
+
+            // Hack to make decorator composable
+            Object.defineProperty(out, SugarCache.ORIGINAL_FN_PROPKEY, {
+                value: originalFn,
+            });
+
+            return out;
+        };
+    }
 }
@@ -0,0 +1,96 @@
+import { promisify } from 'node:util';
+import {
+    brotliCompress,
+    brotliDecompress,
+    gunzip,
+    gzip,
+} from 'node:zlib';
+import { CompressionOptions, Serializer } from '../types';
+import { builtinSerializers, jsonSerializer } from './serializers';
+
+const compressionAlgorithms = {
+    gzip: { id: 1, compress: promisify(gzip), decompress: promisify(gunzip) },
+    brotli: { id: 2, compress: promisify(brotliCompress), decompress: promisify(brotliDecompress) },
+};
+
+const FORMAT_MARKER = 0x00;
+const FORMAT_VERSION = 1;
+const HEADER_LENGTH = 4;
+
+/**
+ * Encodes values into the format stored on redis, and decodes them back.
+ *
+ * Values are prefixed with a header - `[marker, format version, serializer id, compression id]`,
+ * so that values written with any known serializer or compression algorithm can be read,
+ * regardless of the ones currently configured. This allows migrating between them.
+ * Uncompressed plain JSON is stored without a header, which keeps it readable and compatible
+ * with values written by older versions of the library. JSON text can never start with the
+ * marker byte, so the two can't be confused.
+ */
+export default class EntryCodec {
+    private serializer: Serializer;
+
+    private compression?: CompressionOptions;
+
+    private serializersById: Map<number, Serializer>;
+
+    constructor(serializer?: Serializer, compression?: CompressionOptions) {
+        this.serializer = serializer ?? jsonSerializer;
+        this.compression = compression;
+        this.serializersById = new Map(
+            [...builtinSerializers, this.serializer].map((s) => [s.id, s]),
+        );
+    }
+
+    public encode = async (value: any): Promise<Buffer> => {
+        const serialized = this.serializer.serialize(value);
+
+        const shouldCompress = this.compression
+            && serialized.byteLength > (this.compression.threshold ?? 1024);
+
+        if (!shouldCompress && this.serializer.id === jsonSerializer.id) {
+            return serialized;
+        }
+
+        let compressionId = 0;
+        let payload = serialized;
+        if (shouldCompress) {
+            const algorithm = compressionAlgorithms[this.compression.algorithm];
+            compressionId = algorithm.id;
+            payload = await algorithm.compress(serialized);
+        }
+
+        return Buffer.concat([
+            Buffer.from([FORMAT_MARKER, FORMAT_VERSION, this.serializer.id, compressionId]),
+            payload,
+        ]);
+    };
+
+    public decode = async (data: Buffer): Promise<any> => {
+        if (data[0] !== FORMAT_MARKER) {
+            return jsonSerializer.deserialize(data);
+        }
+
+        const [, version, serializerId, compressionId] = data;
+        if (version !== FORMAT_VERSION) {
+            throw new Error(`Unknown format version ${version}`);
+        }
+
+        const serializer = this.serializersById.get(serializerId);
+        if (!serializer) {
+            throw new Error(`Unknown serializer ${serializerId}`);
+        }
+
+        let payload = data.subarray(HEADER_LENGTH);
+        if (compressionId) {
+            const algorithm = Object.values(compressionAlgorithms)
+                .find(({ id }) => id === compressionId);
+            if (!algorithm) {
+                throw new Error(`Unknown compression algorithm ${compressionId}`);
+            }
+            payload = await algorithm.decompress(payload);
+        }
+
+        return serializer.deserialize(payload);
+    };
+}
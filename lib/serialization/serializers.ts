@@ -0,0 +1,100 @@
+import {
+    decode as decodeMsgpack,
+    encode as encodeMsgpack,
+    ExtensionCodec,
+} from '@msgpack/msgpack';
+import { Serializer } from '../types';
+
+/**
+ * Plain JSON. `Date` values are read back as strings, `Map`, `Set` and `undefined`
+ * values are lost, and `BigInt` values can't be serialized
+ */
+export const jsonSerializer: Serializer = {
+    id: 1,
+    serialize: (value) => Buffer.from(JSON.stringify(value)),
+    deserialize: (data) => JSON.parse(data.toString()),
+};
+
+const TYPE_TAG = '$$sugarcache:type';
+
+/**
+ * JSON that preserves `Date`, `Map`, `Set` and `BigInt` values
+ * by storing them as tagged objects
+ */
+export const typedJsonSerializer: Serializer = {
+    id: 2,
+    serialize: (value) => Buffer.from(JSON.stringify(value, function (key, val) {
+        // NOTE: `val` has already been through `toJSON`, which turns dates into strings
+        const original = this[key];
+        if (original instanceof Date) {
+            return { [TYPE_TAG]: 'Date', value: original.toISOString() };
+        }
+        if (original instanceof Map) {
+            return { [TYPE_TAG]: 'Map', value: [...original.entries()] };
+        }
+        if (original instanceof Set) {
+            return { [TYPE_TAG]: 'Set', value: [...original.values()] };
+        }
+        if (typeof original === 'bigint') {
+            return { [TYPE_TAG]: 'BigInt', value: original.toString() };
+        }
+        return val;
+    })),
+    deserialize: (data) => JSON.parse(data.toString(), (_, val) => {
+        switch (val?.[TYPE_TAG]) {
+        case 'Date': {
+            return new Date(val.value);
+        }
+        case 'Map': {
+            return new Map(val.value);
+        }
+        case 'Set': {
+            return new Set(val.value);
+        }
+        case 'BigInt': {
+            return BigInt(val.value);
+        }
+        default: {
+            return val;
+        }
+        }
+    }),
+};
+
+const MSGPACK_EXT_SET = 0;
+const MSGPACK_EXT_MAP = 1;
+const MSGPACK_EXT_BIGINT = 2;
+
+const msgpackExtensionCodec = new ExtensionCodec();
+const msgpackOptions = { extensionCodec: msgpackExtensionCodec };
+
+msgpackExtensionCodec.register({
+    type: MSGPACK_EXT_SET,
+    encode: (value) => (value instanceof Set ? encodeMsgpack([...value], msgpackOptions) : null),
+    decode: (data) => new Set(decodeMsgpack(data, msgpackOptions) as any[]),
+});
+msgpackExtensionCodec.register({
+    type: MSGPACK_EXT_MAP,
+    encode: (value) => (value instanceof Map ? encodeMsgpack([...value], msgpackOptions) : null),
+    decode: (data) => new Map(decodeMsgpack(data, msgpackOptions) as any[]),
+});
+msgpackExtensionCodec.register({
+    type: MSGPACK_EXT_BIGINT,
+    encode: (value) => (typeof value === 'bigint' ? Buffer.from(value.toString()) : null),
+    decode: (data) => BigInt(Buffer.from(data).toString()),
+});
+
+/**
+ * MessagePack (https://msgpack.org). More compact and faster to parse than JSON,
+ * and preserves `Date`, `Map`, `Set` and `BigInt` values
+ */
+export const msgpackSerializer: Serializer = {
+    id: 3,
+    serialize: (value) => {
+        const encoded = encodeMsgpack(value, msgpackOptions);
+        return Buffer.from(encoded.buffer, encoded.byteOffset, encoded.byteLength);
+    },
+    deserialize: (data) => decodeMsgpack(data, msgpackOptions),
+};
+
+export const builtinSerializers = [jsonSerializer, typedJsonSerializer, msgpackSerializer];
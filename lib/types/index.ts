@@ -1,8 +1,141 @@
 import SugarCache from '../main';
 import client from 'prom-client';
+import { Tracer } from './tracing';
+import { LayerFactory } from '../cache/base';
 
 export type PrometheusClient = typeof client;
 
+export type EvictionPolicyName = 'lru' | 'lfu' | 'tinylfu';
+
+/**
+ * Converts values to and from the binary representation stored on redis
+ */
+export interface Serializer {
+    /**
+     * Identifies values written with this serializer, so that they can be read back after
+     * switching serializers. Built-in serializers use ids below 128,
+     * custom serializers should use ids between 128 and 255
+     */
+    id: number;
+    serialize(_value: any): Buffer;
+    deserialize(_data: Buffer): any;
+}
+
+export type CompressionOptions = {
+    algorithm: 'gzip' | 'brotli',
+    /**
+     * Values are only compressed if they are larger than this size (in bytes).
+     * Defaults to 1024
+     */
+    threshold?: number,
+};
+
+/**
+ * Random amount of time added to TTLs, so that values written together don't all expire together.
+ * Either a `fixed` maximum amount of time, or a `percentage` of the TTL (`0.1` for up to 10%)
+ */
+export type TTLJitter = { type: 'fixed', value: TTL } | { type: 'percentage', value: number };
+
+export type SlidingExpirationOptions = {
+    /**
+     * TTL that every read extends the expiry of a value by
+     */
+    ttl: TTL | CachewiseTTL,
+    /**
+     * Maximum time since a value was written after which reads stop extending its expiry,
+     * so that values being read frequently are still refreshed eventually.
+     * Values are kept alive indefinitely if not specified
+     */
+    maxLifetime?: TTL,
+};
+
+export type CircuitBreakerOptions = {
+    /**
+     * Number of consecutive failed redis operations after which the circuit opens. Defaults to 5
+     */
+    failureThreshold?: number,
+    /**
+     * Time for which the circuit stays open before a single operation is let through
+     * to probe whether redis has recovered. Defaults to 10 seconds
+     */
+    resetTimeout?: TTL,
+    /**
+     * Time after which a redis operation is considered failed.
+     * Doesn't apply to operations that scan the keyspace (`clear`, `delWhere`).
+     * Operations don't time out by default
+     */
+    operationTimeout?: TTL,
+};
+
+export type KeyEncodingOptions = {
+    /**
+     * Key values longer than this (in characters, once encoded) are replaced with their
+     * SHA-256 hash, so that large values (like serialized filters) don't produce huge keys.
+     * Values aren't hashed by default
+     */
+    hashThreshold?: number,
+    /**
+     * Older versions didn't encode key values, so values containing `:`, `%`, `{` or `}`
+     * (or hashed values) were stored under different keys. When enabled, reads that miss
+     * are retried with keys in the older format, and deletes remove both.
+     * Meant to be enabled while rolling out, until values written by older versions expire
+     */
+    legacyReads?: boolean,
+};
+
+export type InMemoryCacheOptions = {
+    enable?: boolean,
+    /**
+     * The in-memory cache will not write to cache if this threshold is breached
+     * This is done to avoid over-consumption of application memory for caching.
+     * If not specified, the default value is 50%.
+     * Not applicable when the cache is bounded by `maxEntries` or `maxSize`, which caches
+     * without a redis connection are by default
+     */
+    memoryThresholdPercentage?: number,
+    /**
+     * Maximum number of entries held in memory.
+     * Once reached, entries are evicted as per `evictionPolicy` to make space for new ones.
+     * In-memory layers of caches without a redis connection are bounded to 10,000 entries
+     * by default
+     */
+    maxEntries?: number,
+    /**
+     * Maximum total size (in bytes) of entries held in memory, approximated from the size
+     * of their JSON representation.
+     * Once reached, entries are evicted as per `evictionPolicy` to make space for new ones
+     */
+    maxSize?: number,
+    /**
+     * Policy used to pick entries to evict from a bounded cache -
+     * `lru` (least recently used), `lfu` (least frequently used) or
+     * `tinylfu` (W-TinyLFU, which combines recency and frequency). Defaults to `lru`
+     */
+    evictionPolicy?: EvictionPolicyName,
+    /**
+     * Expired entries are removed when they are read, and by a sweeper that runs
+     * periodically to remove the ones that aren't. This is the interval the sweeper runs at.
+     * Defaults to 30 seconds
+     */
+    sweepInterval?: TTL,
+    /**
+     * Broadcast invalidations (`del`, `mdel`, `clear` and overwrites through `set`/`mset`)
+     * over a redis pub/sub channel for the namespace, so that every instance of the cache
+     * evicts stale values from its in-memory cache.
+     * Requires an additional redis connection per cache instance. Disabled by default
+     */
+    broadcastInvalidations?: boolean,
+    /**
+     * Write values read from redis (or any lower layer) into the in-memory cache and the other
+     * layers above it, so that it warms up on every instance rather than only the one that set
+     * them. Values are kept for `ttl`, capped by the TTL they have left on the layer they were
+     * read from. Disabled by default
+     */
+    backfill?: {
+        ttl: TTL,
+    },
+};
+
 /**
  * @param namespace Namespace of cache. All caches without this value set share a default namespace
  */
@@ -12,22 +145,92 @@ export type CreateCacheOptions<
 > = {
     keys: KeyNames,
     namespace?: string;
-    inMemoryCache?: {
-        enable?: boolean,
-        /**
-         * The in-memory cache will not write to cache if this threshold is breached
-         * This is done to avoid over-consumption of application memory for caching.
-         * If not specified, the default value is 50%
-         */
-        memoryThresholdPercentage?: number,
-    },
+    inMemoryCache?: InMemoryCacheOptions,
+    /**
+     * Storage layers of the cache, fastest first. Reads go through the layers in order until
+     * a value is found, and writes go to every layer the TTL of the value covers.
+     * Defaults to `[memoryLayer(), redisLayer(redis)]` with the redis connection passed to
+     * the cache, or `[memoryLayer()]` without one. Layers must have unique names
+     */
+    layers?: LayerFactory[],
     /**
-     * Keys to use with hashtags. This is required to avoid `CROSS SLOT` redis errors
-     * when using batched operations (`mset`, `mget`, `mdel`) on a clustered redis connection.
+     * Keys to use with hashtags, so that keys sharing their values live in the same slot.
+     * Batched operations (`mset`, `mget`, `mdel`) on clustered redis connections are grouped
+     * by slot, so this isn't required to avoid `CROSS SLOT` errors. Keys sharing hashtags are
+     * pinned to a single shard, so fewer pipelines are run per batch at the cost of balance.
      * https://redis.io/docs/reference/cluster-spec/#hash-tags
      */
     hashtags?: { [_Property in KeyName]?: boolean },
+    /**
+     * Key values are percent-encoded so that keys are unambiguous (`{ a: 'x:y', b: 'z' }` and
+     * `{ a: 'x', b: 'y:z' }` are different keys). Values without `:`, `%`, `{` or `}` are kept
+     * as they are
+     */
+    keyEncoding?: KeyEncodingOptions,
+    /**
+     * Record metrics (hits, misses, latencies, payload sizes, errors and in-memory occupancy)
+     * on a prometheus client. Metrics are labelled by namespace and layer,
+     * so any number of caches can share a client
+     */
     prometheusClient?: PrometheusClient;
+    /**
+     * Trace cache operations (`get`, `set`, `del`, `mget`, `mset`, `mdel`, `clear`) and
+     * executions of memoized functions with an OpenTelemetry tracer, like the ones
+     * `trace.getTracer()` from `@opentelemetry/api` returns
+     */
+    tracer?: Tracer;
+    /**
+     * Serializer for values stored on redis. Built-in serializers are `jsonSerializer` (default),
+     * `typedJsonSerializer` and `msgpackSerializer`.
+     * Values written with any built-in serializer can be read regardless of the one configured
+     */
+    serializer?: Serializer;
+    /**
+     * Compress values stored on redis above a size threshold.
+     * Compressed values can be read regardless of this option
+     */
+    compression?: CompressionOptions;
+    /**
+     * Stop sending operations to redis (or any other shared layer) for a while after repeated
+     * failures, so that they fail fast instead of waiting on an unavailable redis.
+     * Every shared layer gets its own circuit
+     */
+    circuitBreaker?: CircuitBreakerOptions;
+    /**
+     * Treat redis errors (including an open circuit) as misses when reading,
+     * and log them instead of throwing when writing. The in-memory cache keeps serving values,
+     * and memoized functions are called directly when a value can't be read.
+     * Invalidations (`del`, `mdel`, `clear`, `delWhere`, `invalidateTags`) still throw,
+     * so callers know when values might not have been removed. Disabled by default
+     */
+    failOpen?: boolean;
+    /**
+     * Jitter added to the TTL of every value written to memory and redis
+     */
+    ttlJitter?: TTLJitter;
+    /**
+     * Extend the expiry of values every time they are read, in both memory and redis.
+     * Reads don't wait for the expiry to be extended on redis. Disabled by default
+     */
+    slidingExpiration?: SlidingExpirationOptions;
+    /**
+     * Checks values read from either layer, for instance against a schema.
+     * Values failing validation are treated as misses and removed from the cache, which keeps
+     * values written before their shape changed from being served
+     */
+    validate?: (_value: unknown) => boolean;
+    /**
+     * Version of the shape of cached values. Values written with a different version are
+     * treated as misses, so bumping this hides values written by older code
+     */
+    version?: number;
+    /**
+     * Upgrades values written with an older `version` when they are read, instead of
+     * treating them as misses. Values written without a version are considered to be version 0.
+     * Migrated values aren't written back to redis, so they are migrated on every read until
+     * they are overwritten. Throw to treat a value as a miss
+     */
+    migrate?: (_value: any, _fromVersion: number) => any;
 }
 
 /**
@@ -39,29 +242,299 @@ export type TTL = number | {
 };
 
 /**
- * Granular TTL specification for memory and redis caches
+ * Granular TTL specification for each layer of the cache, by layer name.
+ * The default layers are `memory` and `redis`. Values aren't written to layers without a TTL
  */
 export type CachewiseTTL = {
-    redis: TTL,
-    memory: TTL,
+    [_layer: string]: TTL,
+};
+
+/**
+ * Wrapper around every value stored in the cache layers
+ */
+export type CacheEntry<T = any> = {
+    value: T,
+    /**
+     * Unix timestamp (in milliseconds) at which the value was written
+     */
+    writtenAt: number,
+    /**
+     * Tags the value can be invalidated by
+     */
+    tags?: string[],
+    /**
+     * Version of the value's shape, if the cache is versioned
+     */
+    version?: number,
 };
 
 export type KeysObject<KeyName extends string> = {
     [_Property in KeyName]: string
 };
 
+/**
+ * Computes cache keys from the args passed to the decorated function
+ */
+export type KeysResolver<Keys, TArgs extends any[] = any[]> = (..._args: TArgs) => Keys;
+
+/**
+ * Computes the TTL of a value from the args passed to the decorated function and its result
+ */
+export type TTLResolver = (_args: any[], _result: any) => TTL | CachewiseTTL;
+
+/**
+ * Computes the TTL of a value from the value itself
+ */
+export type ValueTTLResolver<Value = any> = (_value: Value) => TTL | CachewiseTTL;
+
+/**
+ * Computes tags for a value from the args passed to the decorated function and its result
+ */
+export type TagsResolver = (_args: any[], _result: any) => string[];
+
+export type SetOptions = {
+    tags?: string[],
+    /**
+     * Version of the shape of the value. Defaults to the cache's `version`
+     */
+    version?: number,
+};
+
+export type MsetOptions<Keys, Value = any> = {
+    tags?: string[] | ((_keys: Keys, _value: Value) => string[]),
+};
+
+export type ClearOptions = {
+    /**
+     * Number of keys requested from redis per SCAN, and deleted per pipeline. Defaults to 100
+     */
+    batchSize?: number,
+    /**
+     * Stops clearing the cache once aborted. Keys deleted until then stay deleted
+     */
+    signal?: AbortSignal,
+    /**
+     * Called after each batch of keys is deleted, with the total number of keys deleted so far
+     */
+    onProgress?: (_deleted: number) => void,
+};
+
+export type MemoizeLockOptions = {
+    /**
+     * Time after which the lock expires on its own.
+     * Should be longer than the time it takes to execute the decorated function
+     */
+    timeout: TTL;
+    /**
+     * Maximum time to wait for the value to be computed by the lock holder
+     */
+    waitTimeout: TTL;
+    /**
+     * Interval at which the cache is polled for the value while waiting. Defaults to 50ms
+     */
+    pollInterval?: TTL;
+    /**
+     * Behaviour when `waitTimeout` elapses without a value being set -
+     * `execute` calls the decorated function anyway, `throw` throws an error.
+     * Defaults to `execute`
+     */
+    onWaitTimeout?: 'execute' | 'throw';
+};
 
-export type MemoizeParams = {
+export type MemoizeParams<Keys = any, TArgs extends any[] = any[]> = {
+    /**
+     * Computes cache keys from function args. By default, keys are read from the function params
+     * of the same names, which doesn't work with minified code, destructured or rest params
+     */
+    keys?: KeysResolver<Keys, TArgs>;
+    /**
+     * TTL of memoized values, or a function that computes it from function args and the result
+     */
+    ttl: TTL | CachewiseTTL | TTLResolver;
     /**
-     * Object mapping cache keys to function args
+     * Acquire a distributed lock on redis before executing the decorated function on a cache miss,
+     * so that only one instance computes a value while others wait for it.
+     * Concurrent calls for the same key within an instance always share a single execution
      */
-    ttl: TTL | CachewiseTTL;
+    lock?: MemoizeLockOptions;
+    /**
+     * Enables stale-while-revalidate. Values older than `freshTTL` are still returned,
+     * but the decorated function is re-run in the background to refresh them.
+     * `ttl` then decides how long a stale value can be served for, so it should be longer than this
+     */
+    freshTTL?: TTL;
+    /**
+     * Cache "not found" results with a separate (usually shorter) TTL
+     */
+    negativeCache?: {
+        ttl: TTL | CachewiseTTL | TTLResolver;
+        /**
+         * Decides whether a result is a "not found" result.
+         * By default `null` and `undefined` are considered as such
+         */
+        isNegative?: (_result: any) => boolean;
+    };
+    /**
+     * Tags to associate memoized values with, so they can be removed with `invalidateTags`
+     */
+    tags?: string[] | TagsResolver;
+    /**
+     * Write values read from redis into the in-memory cache, for the in-memory TTL
+     * capped by the TTL they have left on redis.
+     * Defaults to whether `inMemoryCache.backfill` is configured for the cache
+     */
+    backfill?: boolean;
+    /**
+     * Extend the expiry of memoized values by `ttl` every time they are read,
+     * see `slidingExpiration`. Defaults to the cache's `slidingExpiration`
+     */
+    slidingExpiration?: {
+        maxLifetime?: TTL,
+    };
+    /**
+     * Version of the shape of memoized values, see `CreateCacheOptions.version`.
+     * Defaults to the cache's `version` and `migrate`
+     */
+    version?: number;
+    /**
+     * Upgrades memoized values written with an older `version`, see `CreateCacheOptions.migrate`
+     */
+    migrate?: (_value: any, _fromVersion: number) => any;
 }
 
-export type UpdateMemoizedParams = {
-    ttl: TTL | CachewiseTTL;
+export type MemoizeBatchParams<Keys = any, TArgs extends any[] = any[]> = {
+    /**
+     * Position of the argument holding the list of items (like ids) to fetch. Defaults to 0
+     */
+    batchArg?: number;
+    /**
+     * Computes cache keys of an item of the batched argument,
+     * from the item and all args of the call
+     */
+    keys: (_item: any, _args: TArgs) => Keys;
+    /**
+     * TTL of memoized values, or a function that computes it from an item and its result
+     */
+    ttl: TTL | CachewiseTTL | ((_item: any, _result: any) => TTL | CachewiseTTL);
+    /**
+     * Tags to associate memoized values with, or a function that computes them
+     * from an item and its result
+     */
+    tags?: string[] | ((_item: any, _result: any) => string[]);
+    /**
+     * Merge calls made in the same tick (with the same `this` and other args) into a single
+     * batch, so the decorated function is called at most once for all of them
+     */
+    coalesce?: boolean;
 }
 
+export type UpdateMemoizedParams<Keys = any, TArgs extends any[] = any[]> = {
+    /**
+     * Computes cache keys from function args, see `MemoizeParams.keys`
+     */
+    keys?: KeysResolver<Keys, TArgs>;
+    /**
+     * Version of the shape of memoized values, see `MemoizeParams.version`
+     */
+    version?: number;
+    /**
+     * TTL of memoized values, or a function that computes it from function args and the result
+     */
+    ttl: TTL | CachewiseTTL | TTLResolver;
+    /**
+     * Tags to associate memoized values with, so they can be removed with `invalidateTags`
+     */
+    tags?: string[] | TagsResolver;
+}
+
+export type InvalidateMemoizedParams<Keys = any, TArgs extends any[] = any[]> = {
+    /**
+     * Computes cache keys from function args, see `MemoizeParams.keys`
+     */
+    keys?: KeysResolver<Keys, TArgs>;
+}
+
+/**
+ * Result of a cache read. Lets callers tell a stored `null` (or other falsy value) apart from a miss
+ */
+export type CacheResult<T = any> = { hit: true, value: T } | { hit: false };
+
+export type InMemoryCacheStats = {
+    entries: number,
+    /**
+     * Approximate size in bytes of all entries. Only tracked when `maxSize` is configured
+     */
+    size: number,
+    evictions: number,
+};
+
+type LayerEvent = {
+    namespace: string,
+    /**
+     * Name of the layer the event happened on, like `memory` or `redis`
+     */
+    layer: string,
+};
+
+/**
+ * An event about a single key on a layer
+ */
+export type KeyEvent = LayerEvent & {
+    /**
+     * Key components joined with `:`, without the namespace
+     */
+    key: string,
+    /**
+     * Time taken by the operation, in milliseconds. Batched operations report the time taken
+     * by the whole batch for each key
+     */
+    duration?: number,
+    /**
+     * Size of the value in bytes, once encoded on redis.
+     * Only known on memory layers when `inMemoryCache.maxSize` is configured
+     */
+    size?: number,
+};
+
+/**
+ * Lifecycle events of a cache, by name
+ */
+export type CacheEventMap = {
+    hit: KeyEvent,
+    miss: KeyEvent,
+    set: KeyEvent,
+    delete: KeyEvent,
+    /**
+     * A value was removed from memory once its TTL ran out
+     */
+    expire: KeyEvent,
+    /**
+     * A value was removed from memory to stay within `maxEntries` or `maxSize`
+     */
+    evict: KeyEvent,
+    error: LayerEvent & {
+        error: Error,
+        /**
+         * Key the error happened on, for errors about a single value
+         * (like values that can't be deserialized or fail validation)
+         */
+        key?: string,
+    },
+    clear: LayerEvent & {
+        /**
+         * Number of keys deleted from the layer
+         */
+        count: number,
+        duration: number,
+    },
+};
+
+export type CacheEventName = keyof CacheEventMap;
+
+export type CacheEventHandler<Name extends CacheEventName = CacheEventName> = (
+    _event: CacheEventMap[Name],
+) => void | Promise<void>;
+
 export type VariablesByKeys<T> = {
     [_Property in keyof T]: string
 };
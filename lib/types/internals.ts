@@ -1,3 +1,5 @@
+import { CachewiseTTL, TTL } from '.';
+
 export type DecoratedMethod<TThis, TArgs extends any[], TReturn> = (
     _originalMethod: Function,
     _context: ClassMethodDecoratorContext<
@@ -5,3 +7,44 @@ export type DecoratedMethod<TThis, TArgs extends any[], TReturn> = (
         (_this: TThis, ..._args: TArgs) => TReturn
     >
 ) => void;
+
+/**
+ * TTL of values backfilled into upper layers, or a function that computes it from the value
+ */
+export type BackfillTTL = TTL | CachewiseTTL | ((_value: any) => TTL | CachewiseTTL);
+
+export type SlidingExpiration = {
+    /**
+     * Computes the TTL that reads extend the expiry of a value by
+     */
+    ttl: (_value: any) => TTL | CachewiseTTL,
+    maxLifetime?: TTL,
+};
+
+export type Versioning = {
+    version: number,
+    migrate?: (_value: any, _fromVersion: number) => any,
+};
+
+/**
+ * Options for reads from the multilevel cache.
+ * `undefined` falls back to the cache's configuration, `null` disables the behaviour
+ */
+export type ReadOptions = {
+    backfillTTL?: BackfillTTL | null,
+    sliding?: SlidingExpiration | null,
+    versioning?: Versioning | null,
+};
+
+/**
+ * Items of calls to a `memoizeBatch` decorated function collected to be loaded together
+ */
+export type PendingBatch = {
+    items: any[],
+    values: Promise<any[]>,
+};
+
+/**
+ * Events about a single key, emitted by layers
+ */
+export type KeyEventName = 'hit' | 'miss' | 'set' | 'delete' | 'expire' | 'evict';
@@ -0,0 +1,26 @@
+/**
+ * The parts of OpenTelemetry's tracing API used by the cache. These are declared here rather
+ * than imported, since `@opentelemetry/api` is an optional peer dependency - any OpenTelemetry
+ * `Tracer` can be passed where these are expected
+ */
+export type SpanAttributeValue = string | number | boolean | string[] | number[] | boolean[];
+
+export type SpanAttributes = { [_key: string]: SpanAttributeValue | undefined };
+
+export interface Span {
+    setAttribute(_key: string, _value: SpanAttributeValue): this;
+    setStatus(_status: { code: number, message?: string }): this;
+    recordException(_exception: any): void;
+    end(): void;
+}
+
+export interface Tracer {
+    /**
+     * Runs a function in a new span, which is the active span while the function runs
+     */
+    startActiveSpan<F extends (_span: Span) => unknown>(
+        _name: string,
+        _options: { attributes?: SpanAttributes },
+        _fn: F,
+    ): ReturnType<F>;
+}
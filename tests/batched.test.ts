@@ -63,4 +63,117 @@ describe('Batched operations', () => {
         expect(v0).toBeNull();
         expect(v1).toBeNull();
     })
-})
\ No newline at end of file
+})
+
+describe('Batch memoization', () => {
+    const redis = new Redis({
+        port: 6379,
+        host: '127.0.0.1',
+    });
+
+    const cache = new SugarCache(redis, {
+        namespace: 'memoize-batch',
+        keys: ['orgId', 'userId'],
+    });
+
+    class Controller {
+        static calls: string[][] = [];
+
+        @cache.memoizeBatch({
+            ttl: 5000,
+            batchArg: 1,
+            keys: (userId: string, args: any[]) => ({ orgId: args[0], userId }),
+        })
+        async getUsers(orgId: string, userIds: string[]) {
+            Controller.calls.push(userIds);
+            return userIds.map((userId) => `${orgId}-${userId}`);
+        }
+
+        @cache.memoizeBatch({
+            ttl: 5000,
+            keys: (userId: string) => ({ orgId: 'coalesced', userId }),
+            coalesce: true,
+        })
+        async getCoalescedUsers(userIds: string[]) {
+            Controller.calls.push(userIds);
+            return userIds.map((userId) => `coalesced-${userId}`);
+        }
+
+        @cache.memoizeBatch({
+            ttl: 5000,
+            batchArg: 1,
+            keys: (userId: string, args: any[]) => ({ orgId: `shard-${args[0]}`, userId }),
+            coalesce: true,
+        })
+        async getShardUsers(shard: bigint, userIds: string[]) {
+            Controller.calls.push(userIds);
+            return userIds.map((userId) => `${shard}-${userId}`);
+        }
+
+        @cache.memoizeBatch({
+            ttl: 5000,
+            keys: (user: { id?: string, name: string }) => ({ orgId: 'incomplete', userId: user.id }),
+        })
+        async getUsersByRecord(users: { id?: string, name: string }[]) {
+            Controller.calls.push(users.map(({ name }) => name));
+            return users.map(({ name }) => name);
+        }
+
+        @cache.memoizeBatch({
+            ttl: 5000,
+            keys: (userId: string) => ({ orgId: 'broken', userId }),
+        })
+        async getBrokenUsers(userIds: string[]) {
+            return userIds.slice(1);
+        }
+    }
+    const controller = new Controller();
+
+    beforeEach(async () => {
+        await cache.clear();
+        Controller.calls = [];
+    });
+
+    it('only calls the function with items that are not memoized', async () => {
+        expect(await controller.getUsers('1', ['a', 'b'])).toStrictEqual(['1-a', '1-b']);
+        expect(await controller.getUsers('1', ['c', 'b', 'a', 'c'])).toStrictEqual(['1-c', '1-b', '1-a', '1-c']);
+
+        expect(Controller.calls).toStrictEqual([['a', 'b'], ['c']]);
+        expect(await cache.get({ orgId: '1', userId: 'c' })).toStrictEqual('1-c');
+    })
+
+    it('coalesces calls made in the same tick', async () => {
+        const results = await Promise.all([
+            controller.getCoalescedUsers(['a', 'b']),
+            controller.getCoalescedUsers(['b', 'c']),
+            Promise.resolve().then(() => controller.getCoalescedUsers(['d'])),
+        ]);
+
+        expect(results).toStrictEqual([
+            ['coalesced-a', 'coalesced-b'],
+            ['coalesced-b', 'coalesced-c'],
+            ['coalesced-d'],
+        ]);
+        expect(Controller.calls).toStrictEqual([['a', 'b', 'c', 'd']]);
+    })
+
+    it('loads calls with args that can\'t be serialized without coalescing', async () => {
+        const results = await Promise.all([
+            controller.getShardUsers(BigInt(1), ['a']),
+            controller.getShardUsers(BigInt(1), ['b']),
+        ]);
+
+        expect(results).toStrictEqual([['1-a'], ['1-b']]);
+        expect(Controller.calls).toStrictEqual([['a'], ['b']]);
+    })
+
+    it('throws when keys resolved for items are incomplete', async () => {
+        await expect(controller.getUsersByRecord([{ name: 'a' }, { name: 'b' }]))
+            .rejects.toThrow('variable userId is required');
+        expect(Controller.calls).toStrictEqual([]);
+    })
+
+    it('throws when results do not map to items', async () => {
+        await expect(controller.getBrokenUsers(['a', 'b'])).rejects.toThrow('returned 1 results for 2 items');
+    })
+})
@@ -0,0 +1,119 @@
+import SugarCache from '../lib/main';
+import { CacheEventMap, FakeRedis, memoryLayer } from '../lib';
+
+const resourceId = 'resource-UUID';
+
+describe('Lifecycle events', () => {
+    const createCache = (namespace: string, maxEntries = 100) => new SugarCache(null, {
+        namespace,
+        keys: ['orgId', 'resourceId'],
+        inMemoryCache: { maxEntries },
+    });
+
+    const record = <Name extends keyof CacheEventMap>(
+        cache: SugarCache,
+        ...names: Name[]
+    ) => {
+        const events: [Name, CacheEventMap[Name]][] = [];
+        names.forEach((name) => cache.on(name, (event) => { events.push([name, event]); }));
+        return events;
+    };
+
+    it('Emits events for keys on memory', async () => {
+        const cache = createCache('events');
+        const events = record(cache, 'hit', 'miss', 'set', 'delete');
+
+        await cache.get({ orgId: '1', resourceId });
+        await cache.set({ orgId: '1', resourceId }, 'VALUE', 10000);
+        await cache.get({ orgId: '1', resourceId });
+        await cache.del({ orgId: '1', resourceId });
+        await cache.del({ orgId: '1', resourceId });
+
+        expect(events.map(([name, event]) => [name, event.layer, event.key])).toStrictEqual([
+            ['miss', 'memory', `1:${resourceId}`],
+            ['set', 'memory', `1:${resourceId}`],
+            ['hit', 'memory', `1:${resourceId}`],
+            ['delete', 'memory', `1:${resourceId}`],
+        ]);
+        events.forEach(([, event]) => expect(event.namespace).toStrictEqual('sugar-cache:events'));
+        expect(events[0][1].duration).toBeGreaterThanOrEqual(0);
+        await cache.close();
+    })
+
+    it('Emits evictions, expiries and clears', async () => {
+        const cache = createCache('events-eviction', 1);
+        const events = record(cache, 'evict', 'expire', 'clear');
+
+        await cache.set({ orgId: '1', resourceId }, 'VALUE', 10000);
+        await cache.set({ orgId: '2', resourceId }, 'VALUE', 1);
+        await new Promise((resolve) => { setTimeout(resolve, 5); });
+        await cache.get({ orgId: '2', resourceId });
+        await cache.set({ orgId: '3', resourceId }, 'VALUE', 10000);
+        await cache.clear();
+
+        expect(events.map(([name, event]) => [name, 'key' in event ? event.key : event.count]))
+            .toStrictEqual([
+                ['evict', `1:${resourceId}`],
+                ['expire', `2:${resourceId}`],
+                ['clear', 1],
+            ]);
+        await cache.close();
+    })
+
+    it('Emits events for keys on the fake redis layer', async () => {
+        const cache = new SugarCache(null, {
+            namespace: 'events-fake-redis',
+            keys: ['resourceId'],
+            layers: [new FakeRedis().layer()],
+        });
+        const events = record(cache, 'hit', 'miss', 'set', 'delete');
+
+        await cache.get({ resourceId });
+        await cache.set({ resourceId }, 'VALUE', 10000);
+        await cache.mget([{ resourceId }]);
+        await cache.mdel([{ resourceId }, { resourceId: 'missing' }]);
+
+        expect(events.map(([name, event]) => [name, event.layer, event.key])).toStrictEqual([
+            ['miss', 'redis', resourceId],
+            ['set', 'redis', resourceId],
+            ['hit', 'redis', resourceId],
+            ['delete', 'redis', resourceId],
+        ]);
+        expect(events[1][1].size).toBeGreaterThan(0);
+        expect(events[2][1].size).toStrictEqual(events[1][1].size);
+        await cache.close();
+    })
+
+    it('Emits errors of failed operations', async () => {
+        const fakeRedis = new FakeRedis();
+        const cache = new SugarCache(null, {
+            namespace: 'events-errors',
+            keys: ['resourceId'],
+            layers: [memoryLayer({ maxEntries: 100 }), fakeRedis.layer()],
+        });
+        const events = record(cache, 'error');
+
+        fakeRedis.fail();
+        await expect(cache.get({ resourceId })).rejects.toThrow('Connection is closed');
+
+        expect(events.map(([, event]) => [event.layer, event.error.message])).toStrictEqual([
+            ['redis', '[FakeRedis] Connection is closed'],
+        ]);
+        await cache.close();
+    })
+
+    it('Never fails operations because of handlers', async () => {
+        const cache = createCache('events-handlers');
+        const handler = jest.fn(() => { throw new Error('Handler failed'); });
+        cache.on('set', handler);
+        cache.on('hit', async () => { throw new Error('Handler failed'); });
+
+        await cache.set({ orgId: '1', resourceId }, 'VALUE', 10000);
+        expect(await cache.get({ orgId: '1', resourceId })).toStrictEqual('VALUE');
+
+        cache.off('set', handler);
+        await cache.set({ orgId: '1', resourceId }, 'VALUE', 10000);
+        expect(handler).toHaveBeenCalledTimes(1);
+        await cache.close();
+    })
+})
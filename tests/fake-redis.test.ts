@@ -0,0 +1,164 @@
+import SugarCache from '../lib/main';
+import { FakeRedis, memoryLayer } from '../lib';
+
+const resourceId = 'resource-UUID';
+
+describe('Memory-only cache', () => {
+    const cache = new SugarCache(null, {
+        namespace: 'memory-only',
+        keys: ['orgId', 'resourceId'],
+        inMemoryCache: { maxEntries: 100 },
+    });
+
+    beforeEach(async () => {
+        await cache.clear();
+    });
+
+    afterAll(() => cache.close());
+
+    it('Reads, writes and deletes values without redis', async () => {
+        await cache.set({ orgId: '1', resourceId }, 'VALUE', 10000);
+        await cache.mset([{ orgId: '2', resourceId }], ['OTHER_VALUE'], 10000);
+
+        expect(await cache.mget([
+            { orgId: '1', resourceId },
+            { orgId: '2', resourceId },
+        ])).toStrictEqual(['VALUE', 'OTHER_VALUE']);
+
+        expect(await cache.delWhere({ orgId: '1' })).toStrictEqual(1);
+        expect(await cache.get({ orgId: '1', resourceId })).toBeNull();
+        expect(await cache.clear()).toStrictEqual(1);
+    })
+
+    it('Memoizes functions with locks held within the instance', async () => {
+        let executions = 0;
+        class Controller {
+            @cache.memoize({ ttl: 10000, lock: { timeout: 1000, waitTimeout: 1000 } })
+            async getResource(orgId: string, resourceId: string) {
+                executions += 1;
+                return `computed-${orgId}-${resourceId}`;
+            }
+        }
+        const controller = new Controller();
+
+        const results = await Promise.all([1, 2, 3].map(() => controller.getResource('1', resourceId)));
+
+        expect(results).toStrictEqual(Array(3).fill(`computed-1-${resourceId}`));
+        expect(await controller.getResource('1', resourceId)).toStrictEqual(`computed-1-${resourceId}`);
+        expect(executions).toStrictEqual(1);
+    })
+})
+
+describe('Memory-only cache with default options', () => {
+    const cache = new SugarCache(null, {
+        namespace: 'memory-only-defaults',
+        keys: ['resourceId'],
+    });
+
+    afterAll(() => cache.close());
+
+    it('Keeps values regardless of heap usage', async () => {
+        let executions = 0;
+        class Controller {
+            @cache.memoize({ ttl: 10000 })
+            async getResource(resourceId: string) {
+                executions += 1;
+                return `computed-${resourceId}`;
+            }
+        }
+        const controller = new Controller();
+
+        await cache.set({ resourceId }, 'VALUE', 10000);
+        expect(await cache.get({ resourceId })).toStrictEqual('VALUE');
+
+        await controller.getResource('other-resource');
+        await controller.getResource('other-resource');
+        await controller.getResource('other-resource');
+        expect(executions).toStrictEqual(1);
+    })
+})
+
+describe('Fake redis', () => {
+    const fakeRedis = new FakeRedis();
+
+    const createCache = (namespace: string, options: { failOpen?: boolean } = {}) => new SugarCache(null, {
+        namespace,
+        keys: ['resourceId'],
+        layers: [fakeRedis.layer()],
+        ...options,
+    });
+
+    afterEach(() => {
+        fakeRedis.recover();
+        fakeRedis.flush();
+    });
+
+    it('Expires values as the clock advances', async () => {
+        const cache = createCache('fake-expiry');
+        await cache.set({ resourceId }, 'VALUE', { value: 1, unit: 'minutes' });
+
+        fakeRedis.advance({ value: 59, unit: 'seconds' });
+        expect(await cache.get({ resourceId })).toStrictEqual('VALUE');
+
+        fakeRedis.advance({ value: 1, unit: 'seconds' });
+        expect(await cache.get({ resourceId })).toBeNull();
+    })
+
+    it('Is shared by caches using the same fake', async () => {
+        const writer = createCache('fake-shared');
+        const reader = createCache('fake-shared');
+
+        await writer.set({ resourceId }, 'VALUE', 10000, { tags: ['tag'] });
+        expect(await reader.get({ resourceId })).toStrictEqual('VALUE');
+
+        await reader.invalidateTags(['tag']);
+        expect(await writer.get({ resourceId })).toBeNull();
+    })
+
+    it('Fails operations while down', async () => {
+        const cache = createCache('fake-outage');
+        await cache.set({ resourceId }, 'VALUE', 10000);
+
+        fakeRedis.fail();
+        await expect(cache.get({ resourceId })).rejects.toThrow('Connection is closed');
+
+        fakeRedis.recover();
+        expect(await cache.get({ resourceId })).toStrictEqual('VALUE');
+
+        fakeRedis.failNext(1);
+        await expect(cache.get({ resourceId })).rejects.toThrow('Connection is closed');
+        expect(await cache.get({ resourceId })).toStrictEqual('VALUE');
+    })
+
+    it('Serves values from memory while down when failing open', async () => {
+        const cache = new SugarCache(null, {
+            namespace: 'fake-fail-open',
+            keys: ['resourceId'],
+            layers: [memoryLayer({ maxEntries: 100 }), fakeRedis.layer()],
+            failOpen: true,
+        });
+        await cache.set({ resourceId }, 'VALUE', 10000);
+
+        fakeRedis.fail();
+        expect(await cache.mget([{ resourceId }, { resourceId: 'missing' }])).toStrictEqual(['VALUE', null]);
+        await expect(cache.set({ resourceId }, 'OTHER_VALUE', 10000)).resolves.toBeUndefined();
+        await expect(cache.del({ resourceId })).rejects.toThrow('Connection is closed');
+        await cache.close();
+    })
+    it('Bounds in-memory layers instead of skipping writes under memory pressure', async () => {
+        const cache = new SugarCache(null, {
+            namespace: 'fake-memory-bound',
+            keys: ['resourceId'],
+            // NOTE: Unbounded layers would skip every write with this threshold
+            inMemoryCache: { memoryThresholdPercentage: 0 },
+            layers: [memoryLayer(), fakeRedis.layer()],
+        });
+        await cache.set({ resourceId }, 'VALUE', 10000);
+        expect(cache.inMemoryStats().entries).toStrictEqual(1);
+
+        // Values are served from memory while the fake is down
+        fakeRedis.fail();
+        expect(await cache.get({ resourceId })).toStrictEqual('VALUE');
+        await cache.close();
+    })
+})
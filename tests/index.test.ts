@@ -122,6 +122,585 @@ describe('Functional tests', () => {
                 expect(response).toStrictEqual({ res: resourceCategory + resourceId });
             }, mockLatency);
         });
+
+        describe('Request coalescing', () => {
+            const cacheCoalesced = new SugarCache(redis, { keys: ['resourceId'], namespace: 'coalesced' });
+            const secondRedis = new Redis({ port: 6379, host: '127.0.0.1' });
+            const otherInstanceCache = new SugarCache(secondRedis, { keys: ['resourceId'], namespace: 'coalesced' });
+
+            const lock = { timeout: 5000, waitTimeout: 5000, pollInterval: 20 };
+
+            let executions = 0;
+
+            class Controller {
+                @cacheCoalesced.memoize({ ttl: 5000 })
+                async read(resourceId: string) {
+                    executions += 1;
+                    await new Promise((resolve) => setTimeout(resolve, 200));
+                    return { res: resourceId };
+                }
+
+                @cacheCoalesced.memoize({ ttl: 5000, lock })
+                async readLocked(resourceId: string) {
+                    executions += 1;
+                    await new Promise((resolve) => setTimeout(resolve, 200));
+                    return { res: resourceId };
+                }
+
+                @otherInstanceCache.memoize({ ttl: 5000, lock })
+                async readLockedOnOtherInstance(resourceId: string) {
+                    executions += 1;
+                    await new Promise((resolve) => setTimeout(resolve, 200));
+                    return { res: resourceId };
+                }
+            }
+            const controller = new Controller();
+
+            beforeEach(async () => {
+                executions = 0;
+                await cacheCoalesced.clear();
+            });
+
+            it('concurrent calls execute function once', async () => {
+                const responses = await Promise.all(
+                    [...Array(10).keys()].map(() => controller.read('resource')),
+                );
+                expect(executions).toStrictEqual(1);
+                responses.forEach((response) => expect(response).toStrictEqual({ res: 'resource' }));
+            });
+
+            it('concurrent calls across instances execute function once with lock', async () => {
+                const responses = await Promise.all([
+                    controller.readLocked('resource'),
+                    controller.readLockedOnOtherInstance('resource'),
+                ]);
+                expect(executions).toStrictEqual(1);
+                responses.forEach((response) => expect(response).toStrictEqual({ res: 'resource' }));
+            });
+        });
+    });
+
+    describe('Falsy values', () => {
+        const cache = new SugarCache(redis, { keys: ['mockKey'], namespace: 'falsy' });
+        const falsyValues = [0, false, '', null];
+
+        beforeEach(async () => {
+            await cache.clear();
+        });
+
+        it('falsy values are read back', async () => {
+            for (const [idx, value] of falsyValues.entries()) {
+                await cache.set({ mockKey: `${idx}` }, value, ttl);
+                expect(await cache.get({ mockKey: `${idx}` })).toStrictEqual(value);
+                expect(await cache.getResult({ mockKey: `${idx}` })).toStrictEqual({ hit: true, value });
+            }
+        });
+
+        it('stored null can be told apart from a miss', async () => {
+            await cache.mset([{ mockKey: 'null' }], [null], ttl);
+            const results = await cache.mgetResults([{ mockKey: 'null' }, { mockKey: 'missing' }]);
+            expect(results).toStrictEqual([{ hit: true, value: null }, { hit: false }]);
+        });
+
+        it('falsy memoized results are not recomputed', async () => {
+            let executions = 0;
+
+            class Controller {
+                @cache.memoize({ ttl })
+                async read(mockKey: string) {
+                    executions += 1;
+                    return 0;
+                }
+
+                @cache.memoize({ ttl, negativeCache: { ttl: 100 } })
+                async find(mockKey: string) {
+                    executions += 1;
+                    return null;
+                }
+            }
+            const controller = new Controller();
+
+            expect(await controller.read('zero')).toStrictEqual(0);
+            expect(await controller.read('zero')).toStrictEqual(0);
+            expect(executions).toStrictEqual(1);
+
+            executions = 0;
+            expect(await controller.find('not-found')).toBeNull();
+            expect(await controller.find('not-found')).toBeNull();
+            expect(executions).toStrictEqual(1);
+
+            // Negative results expire sooner
+            await new Promise((resolve) => setTimeout(resolve, 150));
+            expect(await controller.find('not-found')).toBeNull();
+            expect(executions).toStrictEqual(2);
+        });
+    });
+
+    describe('Tags', () => {
+        const cache = new SugarCache(redis, { keys: ['userId', 'orgId'], namespace: 'tags' });
+        const orgCache = new SugarCache(redis, { keys: ['orgId', 'page'], namespace: 'tags-org' });
+
+        beforeEach(async () => {
+            await Promise.all([cache.clear(), orgCache.clear()]);
+        });
+
+        it('invalidateTags removes tagged values across keys', async () => {
+            await cache.set({ userId: 'foo', orgId: 'org' }, 'FOO', ttl, { tags: ['org:org'] });
+            await cache.mset(
+                [{ userId: 'bar', orgId: 'org' }, { userId: 'baz', orgId: 'other-org' }],
+                ['BAR', 'BAZ'],
+                ttl,
+                { tags: (keys) => [`org:${keys.orgId}`] },
+            );
+
+            await cache.invalidateTags(['org:org']);
+
+            expect(await cache.mget([
+                { userId: 'foo', orgId: 'org' },
+                { userId: 'bar', orgId: 'org' },
+                { userId: 'baz', orgId: 'other-org' },
+            ])).toStrictEqual([null, null, 'BAZ']);
+        });
+
+        it('decorators tag and invalidate memoized values', async () => {
+            class Controller {
+                @orgCache.memoize({ ttl, tags: ([orgId]) => [`org:${orgId}`] })
+                async listUsers(orgId: string, page: string) {
+                    return [`${orgId}-${page}`];
+                }
+
+                @orgCache.invalidateMemoizedTags(([orgId]) => [`org:${orgId}`])
+                async renameOrg(orgId: string, name: string) {
+                    return name;
+                }
+            }
+            const controller = new Controller();
+
+            await controller.listUsers('org', '1');
+            await controller.listUsers('org', '2');
+            expect(await orgCache.get({ orgId: 'org', page: '2' })).toStrictEqual(['org-2']);
+
+            await controller.renameOrg('org', 'new-name');
+
+            expect(await orgCache.mget([
+                { orgId: 'org', page: '1' },
+                { orgId: 'org', page: '2' },
+            ])).toStrictEqual([null, null]);
+        });
+    });
+
+    describe('Partial key invalidation', () => {
+        const cache = new SugarCache(redis, { keys: ['userId', 'orgId'], namespace: 'partial' });
+
+        beforeEach(async () => {
+            await cache.clear();
+        });
+
+        it('delWhere removes values matching a subset of keys', async () => {
+            await cache.mset(
+                [
+                    { userId: 'foo', orgId: '42' },
+                    { userId: 'bar', orgId: '42' },
+                    { userId: 'foo', orgId: '420' },
+                ],
+                ['FOO', 'BAR', 'OTHER-FOO'],
+                ttl,
+            );
+
+            const deleted = await cache.delWhere({ orgId: '42' });
+
+            expect(deleted).toBe(2);
+            expect(await cache.mget([
+                { userId: 'foo', orgId: '42' },
+                { userId: 'bar', orgId: '42' },
+                { userId: 'foo', orgId: '420' },
+            ])).toStrictEqual([null, null, 'OTHER-FOO']);
+        });
+
+        it('delWhere treats glob characters in values literally', async () => {
+            await cache.mset(
+                [{ userId: 'foo', orgId: '4*' }, { userId: 'foo', orgId: '42' }],
+                ['STAR', 'FOO'],
+                ttl,
+            );
+
+            await cache.delWhere({ orgId: '4*' });
+
+            expect(await cache.mget([
+                { userId: 'foo', orgId: '4*' },
+                { userId: 'foo', orgId: '42' },
+            ])).toStrictEqual([null, 'FOO']);
+        });
+
+        it('delWhere rejects unknown keys', async () => {
+            await expect(cache.delWhere({ teamId: '1' } as any)).rejects.toThrow('Unknown keys');
+        });
+
+        it('decorator invalidates memoized values matching a subset of keys', async () => {
+            class Controller {
+                @cache.memoize({ ttl })
+                async getUser(userId: string, orgId: string) {
+                    return `${userId}-${orgId}`;
+                }
+
+                @cache.invalidateMemoizedWhere(['orgId'])
+                async deleteOrg(orgId: string) {
+                    return orgId;
+                }
+            }
+            const controller = new Controller();
+
+            await controller.getUser('foo', '42');
+            await controller.getUser('bar', '42');
+            expect(await cache.get({ userId: 'bar', orgId: '42' })).toBe('bar-42');
+
+            await controller.deleteOrg('42');
+
+            expect(await cache.mget([
+                { userId: 'foo', orgId: '42' },
+                { userId: 'bar', orgId: '42' },
+            ])).toStrictEqual([null, null]);
+        });
+    });
+
+    describe('Clear', () => {
+        const cache = new SugarCache(redis, { keys: ['mockKey'], namespace: 'clear' });
+        const prefixedCache = new SugarCache(redis, { keys: ['mockKey'], namespace: 'clear-other' });
+        const mockKeys = [...Array(totTestKeys).keys()].map((x) => ({ mockKey: `foo-${x}` }));
+
+        beforeEach(async () => {
+            await Promise.all([cache.clear(), prefixedCache.clear()]);
+            await cache.mset(mockKeys, mockKeys.map(({ mockKey }) => mockKey), ttl);
+        });
+
+        it('deletes keys in batches and reports progress', async () => {
+            const progress: number[] = [];
+
+            const deleted = await cache.clear({
+                batchSize: 10,
+                onProgress: (count) => progress.push(count),
+            });
+
+            expect(deleted).toBe(totTestKeys);
+            expect(progress.length).toBeGreaterThan(1);
+            expect(progress[progress.length - 1]).toBe(totTestKeys);
+            expect(await cache.mget(mockKeys)).toStrictEqual(mockKeys.map(() => null));
+        });
+
+        it('leaves namespaces sharing a prefix untouched', async () => {
+            await prefixedCache.set({ mockKey: 'foo' }, 'bar', ttl);
+
+            await cache.clear();
+
+            expect(await prefixedCache.get({ mockKey: 'foo' })).toBe('bar');
+        });
+
+        it('stops once aborted', async () => {
+            const controller = new AbortController();
+            controller.abort();
+
+            await expect(cache.clear({ signal: controller.signal })).rejects.toThrow();
+            expect(await redis.exists(`sugar-cache:clear:${mockKeys[0].mockKey}`)).toBe(1);
+        });
+    });
+
+    describe('TTL functions and jitter', () => {
+        const cache = new SugarCache(redis, { keys: ['listId'], namespace: 'ttl-functions' });
+        const jitteredCache = new SugarCache(redis, {
+            keys: ['mockKey'],
+            namespace: 'ttl-jitter',
+            ttlJitter: { type: 'percentage', value: 0.5 },
+        });
+        const redisTTL = (namespace: string, key: string) => redis.pttl(`sugar-cache:${namespace}:${key}`);
+
+        beforeEach(async () => {
+            await Promise.all([cache.clear(), jitteredCache.clear()]);
+        });
+
+        it('memoize computes TTL from args and result', async () => {
+            class Controller {
+                @cache.memoize({ ttl: (_args, result: string[]) => (result.length ? 10000 : 100) })
+                async getList(listId: string) {
+                    return listId === 'empty' ? [] : [listId];
+                }
+            }
+            const controller = new Controller();
+
+            await controller.getList('empty');
+            await controller.getList('full');
+
+            expect(await redisTTL('ttl-functions', 'empty')).toBeLessThanOrEqual(100);
+            expect(await redisTTL('ttl-functions', 'full')).toBeGreaterThan(100);
+        });
+
+        it('set computes TTL from the value', async () => {
+            const expiresAt = Date.now() + 5000;
+            await cache.set(
+                { listId: 'expiring' },
+                { expiresAt },
+                (value) => value.expiresAt - Date.now(),
+            );
+
+            const ttlLeft = await redisTTL('ttl-functions', 'expiring');
+            expect(ttlLeft).toBeGreaterThan(4000);
+            expect(ttlLeft).toBeLessThanOrEqual(5000);
+        });
+
+        it('jitter spreads out TTLs of values written together', async () => {
+            const mockKeys = [...Array(20).keys()].map((x) => ({ mockKey: `foo-${x}` }));
+            await jitteredCache.mset(mockKeys, mockKeys.map(() => 'bar'), 2000);
+
+            const ttls = await Promise.all(mockKeys.map(({ mockKey }) => redisTTL('ttl-jitter', mockKey)));
+
+            ttls.forEach((ttlLeft) => {
+                expect(ttlLeft).toBeGreaterThan(1500);
+                expect(ttlLeft).toBeLessThanOrEqual(3000);
+            });
+            expect(new Set(ttls).size).toBeGreaterThan(1);
+        });
+    });
+
+    describe('Custom key resolvers', () => {
+        const cache = new SugarCache(redis, { keys: ['userId', 'orgId'], namespace: 'key-resolvers' });
+
+        class Controller {
+            static calls = 0;
+
+            @cache.memoize({
+                ttl,
+                keys: ({ id, org }: { id: string, org: string }) => ({ userId: id, orgId: org }),
+            })
+            async getUser({ id, org }: { id: string, org: string }) {
+                Controller.calls += 1;
+                return `${id}-${org}`;
+            }
+
+            @cache.updateMemoized({
+                ttl,
+                keys: (...ids: string[]) => ({ userId: ids[0], orgId: ids[1] }),
+            })
+            async refreshUser(...ids: string[]) {
+                return `${ids[0]}-${ids[1]}-refreshed`;
+            }
+
+            @cache.invalidateMemoized({
+                keys: (user: { id: string, org: string }) => ({ userId: user.id, orgId: user.org }),
+            })
+            async deleteUser(user: { id: string, org: string }) {
+                return user.id;
+            }
+        }
+        const controller = new Controller();
+
+        beforeEach(async () => {
+            await cache.clear();
+            Controller.calls = 0;
+        });
+
+        it('memoizes functions taking a single options object', async () => {
+            await controller.getUser({ id: 'foo', org: 'bar' });
+            expect(await controller.getUser({ id: 'foo', org: 'bar' })).toBe('foo-bar');
+
+            expect(Controller.calls).toBe(1);
+            expect(await cache.get({ userId: 'foo', orgId: 'bar' })).toBe('foo-bar');
+        });
+
+        it('updates and invalidates values with resolved keys', async () => {
+            await controller.refreshUser('foo', 'bar');
+            expect(await controller.getUser({ id: 'foo', org: 'bar' })).toBe('foo-bar-refreshed');
+
+            await controller.deleteUser({ id: 'foo', org: 'bar' });
+            expect(await cache.get({ userId: 'foo', orgId: 'bar' })).toBeNull();
+        });
+
+        it('throws when resolved keys are missing', async () => {
+            await expect(controller.refreshUser('foo')).rejects.toThrow('orgId is required');
+        });
+    });
+
+    describe('Typed values and validation', () => {
+        type User = { name: string, email: string };
+        const isUser = (value: any) => typeof value?.name === 'string' && typeof value?.email === 'string';
+
+        const cache = new SugarCache<['userId'], User>(redis, {
+            keys: ['userId'],
+            namespace: 'validated',
+            validate: isUser,
+        });
+        // Writes values in the shape used before a deploy
+        const legacyCache = new SugarCache(redis, {
+            keys: ['userId'],
+            namespace: 'validated',
+            inMemoryCache: { enable: false },
+        });
+
+        beforeEach(async () => {
+            await cache.clear();
+        });
+
+        it('returns values that pass validation', async () => {
+            const user: User = { name: 'foo', email: 'foo@bar.com' };
+            await cache.set({ userId: 'foo' }, user, ttl);
+
+            const cachedUser: User | null = await cache.get({ userId: 'foo' });
+            expect(cachedUser).toStrictEqual(user);
+        });
+
+        it('treats values failing validation as misses and removes them', async () => {
+            await legacyCache.mset(
+                [{ userId: 'foo' }, { userId: 'bar' }],
+                [{ fullName: 'foo' }, { name: 'bar', email: 'bar@bar.com' }],
+                ttl,
+            );
+
+            expect(await cache.mget([{ userId: 'foo' }, { userId: 'bar' }]))
+                .toStrictEqual([null, { name: 'bar', email: 'bar@bar.com' }]);
+            expect(await cache.getResult({ userId: 'foo' })).toStrictEqual({ hit: false });
+            expect(await legacyCache.get({ userId: 'foo' })).toBeNull();
+        });
+
+        it('keeps key names checked on typed caches', () => {
+            // NOTE: Never called, the assertions are made by the type-check
+            const misspelledKeys = () => {
+                // @ts-expect-error Misspelled key name
+                cache.get({ userIdd: 'foo' });
+                // @ts-expect-error Value of the wrong type
+                cache.set({ userId: 'foo' }, { fullName: 'foo' }, ttl);
+            };
+            expect(misspelledKeys).toBeDefined();
+        });
+    });
+
+    describe('Versioning', () => {
+        const namespace = 'versioned';
+        const unversionedCache = new SugarCache(redis, { keys: ['userId'], namespace });
+        const v1Cache = new SugarCache(redis, { keys: ['userId'], namespace, version: 1 });
+        const v2Cache = new SugarCache(redis, { keys: ['userId'], namespace, version: 2 });
+        const migratingCache = new SugarCache(redis, {
+            keys: ['userId'],
+            namespace,
+            version: 2,
+            migrate: (value, fromVersion) => {
+                if (fromVersion === 0) {
+                    throw new Error('Unsupported version');
+                }
+                return { name: value.fullName };
+            },
+        });
+
+        beforeEach(async () => {
+            await v1Cache.clear();
+        });
+
+        it('hides values written with other versions', async () => {
+            await v1Cache.set({ userId: 'foo' }, { fullName: 'foo' }, ttl);
+            expect(await v2Cache.get({ userId: 'foo' })).toBeNull();
+
+            await v2Cache.set({ userId: 'bar' }, { name: 'bar' }, ttl);
+            expect(await v1Cache.getResult({ userId: 'bar' })).toStrictEqual({ hit: false });
+        });
+
+        it('migrates values written with older versions', async () => {
+            await v1Cache.set({ userId: 'foo' }, { fullName: 'foo' }, ttl);
+            await unversionedCache.set({ userId: 'bar' }, { fullName: 'bar' }, ttl);
+
+            expect(await migratingCache.mget([{ userId: 'foo' }, { userId: 'bar' }]))
+                .toStrictEqual([{ name: 'foo' }, null]);
+        });
+
+        it('memoize reads and writes its own version', async () => {
+            class Controller {
+                static calls = 0;
+
+                @unversionedCache.memoize({ ttl, version: 3 })
+                async getUser(userId: string) {
+                    Controller.calls += 1;
+                    return { id: userId };
+                }
+            }
+
+            await v1Cache.set({ userId: 'foo' }, { fullName: 'foo' }, ttl);
+            expect(await new Controller().getUser('foo')).toStrictEqual({ id: 'foo' });
+            expect(await new Controller().getUser('foo')).toStrictEqual({ id: 'foo' });
+
+            expect(Controller.calls).toBe(1);
+            // Written with version 3, so hidden from caches on older versions
+            expect(await v2Cache.get({ userId: 'foo' })).toBeNull();
+        });
+
+        it('memoize overriding only the version migrates with the cache\'s migrate', async () => {
+            class Controller {
+                static calls = 0;
+
+                @migratingCache.memoize({ ttl, version: 3 })
+                async getUser(userId: string) {
+                    Controller.calls += 1;
+                    return { name: userId };
+                }
+            }
+
+            await v1Cache.set({ userId: 'foo' }, { fullName: 'migrated-foo' }, ttl);
+            expect(await new Controller().getUser('foo')).toStrictEqual({ name: 'migrated-foo' });
+            expect(Controller.calls).toBe(0);
+        });
+    });
+
+    describe('Key encoding', () => {
+        const namespace = 'key-encoding';
+        const cache = new SugarCache(redis, {
+            keys: ['a', 'b'],
+            namespace,
+            hashtags: { a: true },
+            keyEncoding: { hashThreshold: 64 },
+        });
+        const unmigratedCache = new SugarCache(redis, { keys: ['a', 'b'], namespace });
+        const migratingCache = new SugarCache(redis, {
+            keys: ['a', 'b'],
+            namespace,
+            keyEncoding: { legacyReads: true },
+        });
+        // Writes the key older versions wrote `{ a: 'x:y', b: 'z' }` at
+        const legacyCache = new SugarCache(redis, { keys: ['a', 'b', 'c'], namespace });
+
+        beforeEach(async () => {
+            await cache.clear();
+        });
+
+        it('keeps keys with separators in their values apart', async () => {
+            await cache.set({ a: 'x:y', b: 'z' }, 'first', ttl);
+            await cache.set({ a: 'x', b: 'y:z' }, 'second', ttl);
+
+            expect(await cache.mget([{ a: 'x:y', b: 'z' }, { a: 'x', b: 'y:z' }]))
+                .toStrictEqual(['first', 'second']);
+            expect(new Set(await redis.keys(`sugar-cache:${namespace}:*`))).toStrictEqual(new Set([
+                `sugar-cache:${namespace}:{x%3Ay}:z`,
+                `sugar-cache:${namespace}:{x}:y%3Az`,
+            ]));
+
+            expect(await cache.delWhere({ a: 'x:y' })).toStrictEqual(1);
+            expect(await cache.get({ a: 'x', b: 'y:z' })).toStrictEqual('second');
+        });
+
+        it('hashes long values', async () => {
+            const filter = JSON.stringify({ ids: [...Array(50).keys()] });
+            await cache.set({ a: 'x', b: filter }, 'filtered', ttl);
+
+            const [redisKey] = await redis.keys(`sugar-cache:${namespace}:*`);
+            expect(redisKey).toMatch(new RegExp(`^sugar-cache:${namespace}:\\{x\\}:%H[\\w-]{43}$`));
+            expect(await cache.get({ a: 'x', b: filter })).toStrictEqual('filtered');
+        });
+
+        it('reads and deletes keys in the legacy format when migrating', async () => {
+            await legacyCache.set({ a: 'x', b: 'y', c: 'z' }, 'legacy', ttl);
+
+            expect(await unmigratedCache.get({ a: 'x:y', b: 'z' })).toBeNull();
+            expect(await migratingCache.get({ a: 'x:y', b: 'z' })).toStrictEqual('legacy');
+            expect(await migratingCache.mget([{ a: 'x:y', b: 'z' }, { a: 'x', b: 'y' }]))
+                .toStrictEqual(['legacy', null]);
+
+            await migratingCache.del({ a: 'x:y', b: 'z' });
+            expect(await migratingCache.get({ a: 'x:y', b: 'z' })).toBeNull();
+        });
     });
 
     describe('Basic cache with redis cluster', () => {
@@ -159,6 +738,18 @@ describe('Functional tests', () => {
                 expect(cachedVal).toBeNull();
             }
         });
+
+        it('batched ops without hashtags', async () => {
+            const keys = mockCacheVals.map((v) => ({ mockKey: v.key }));
+            const vals = mockCacheVals.map((v) => v.val);
+
+            await cacheBasic.mset(keys, vals, ttl);
+            expect(await cacheBasic.mget([...keys, { mockKey: 'missing' }]))
+                .toStrictEqual([...vals, null]);
+
+            await cacheBasic.mdel(keys);
+            expect(await cacheBasic.mget(keys)).toStrictEqual(keys.map(() => null));
+        });
     });
 
     describe('Basic cache hashtags', () => {
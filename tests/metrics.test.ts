@@ -0,0 +1,76 @@
+import client from 'prom-client';
+import SugarCache from '../lib/main';
+import { FakeRedis, memoryLayer } from '../lib';
+
+const resourceId = 'resource-UUID';
+
+// NOTE: Histograms are read through their `_count` series
+const metricValue = async (name: string, labels: Record<string, string>) => {
+    const metric = await client.register.getSingleMetric(name.replace(/_count$/, ''))?.get();
+    return metric?.values
+        .filter((value) => ((value as any).metricName ?? name) === name)
+        .filter((value) => Object.entries(labels).every(([label, v]) => value.labels[label] === v))
+        .reduce((total, { value }) => total + value, 0);
+};
+
+describe('Metrics', () => {
+    const fakeRedis = new FakeRedis();
+
+    const createCache = (namespace: string) => new SugarCache(null, {
+        namespace,
+        keys: ['resourceId'],
+        prometheusClient: client,
+        layers: [memoryLayer({ maxEntries: 1 }), fakeRedis.layer()],
+    });
+
+    const cache = createCache('metrics');
+    const otherCache = createCache('other-metrics');
+
+    beforeEach(() => {
+        client.register.resetMetrics();
+    });
+
+    afterAll(() => Promise.all([cache.close(), otherCache.close()]));
+
+    it('Counts hits and misses by namespace and layer', async () => {
+        await cache.set({ resourceId }, 'VALUE', { redis: 10000 });
+        await cache.mget([{ resourceId }, { resourceId: 'missing' }]);
+        await otherCache.get({ resourceId });
+
+        const labels = { namespace: 'sugar-cache:metrics' };
+        expect(await metricValue('sugarcache_misses_total', { ...labels, layer: 'memory' })).toStrictEqual(2);
+        expect(await metricValue('sugarcache_hits_total', { ...labels, layer: 'redis' })).toStrictEqual(1);
+        expect(await metricValue('sugarcache_misses_total', { ...labels, layer: 'redis' })).toStrictEqual(1);
+        expect(await metricValue('sugarcache_misses_total', { namespace: 'sugar-cache:other-metrics' })).toStrictEqual(2);
+    })
+
+    it('Times operations and memoized functions', async () => {
+        class Controller {
+            @cache.memoize({ ttl: 10000 })
+            async getResource(resourceId: string) {
+                return `computed-${resourceId}`;
+            }
+        }
+        await new Controller().getResource('memoized');
+        await cache.mdel([{ resourceId: 'memoized' }]);
+
+        const labels = { namespace: 'sugar-cache:metrics' };
+        expect(await metricValue('sugarcache_operation_duration_seconds_count', { ...labels, operation: 'get' })).toStrictEqual(1);
+        expect(await metricValue('sugarcache_operation_duration_seconds_count', { ...labels, operation: 'set' })).toStrictEqual(1);
+        expect(await metricValue('sugarcache_operation_duration_seconds_count', { ...labels, operation: 'mdel' })).toStrictEqual(1);
+        expect(await metricValue('sugarcache_memoized_execution_duration_seconds_count', { ...labels, function: 'getResource' })).toStrictEqual(1);
+        expect(await metricValue('sugarcache_payload_size_bytes_count', { ...labels, layer: 'redis' })).toStrictEqual(1);
+    })
+
+    it('Tracks in-memory entries, evictions and errors', async () => {
+        await cache.mset([{ resourceId }, { resourceId: 'other' }], ['VALUE', 'OTHER_VALUE'], 10000);
+
+        fakeRedis.failNext(1);
+        await expect(cache.get({ resourceId: 'missing' })).rejects.toThrow();
+
+        const labels = { namespace: 'sugar-cache:metrics', layer: 'memory' };
+        expect(await metricValue('sugarcache_memory_entries', labels)).toStrictEqual(1);
+        expect(await metricValue('sugarcache_memory_evictions_total', labels)).toStrictEqual(1);
+        expect(await metricValue('sugarcache_errors_total', { layer: 'redis', type: 'operation' })).toStrictEqual(1);
+    })
+})
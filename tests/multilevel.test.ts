@@ -1,5 +1,6 @@
 import Redis from "ioredis";
 import SugarCache from "../lib/main";
+import { CacheEntry, InMemoryCacheOptions, memoryLayer, redisLayer, StorageAdapter } from "../lib";
 import { logger } from './index.test';
 
 const resourceId = 'resource-UUID';
@@ -118,3 +119,401 @@ describe('Memory threshold test', () => {
         expect(result).toStrictEqual(cachedResult);
     })
 })
+
+describe('Cross-instance invalidation', () => {
+    const namespace = 'broadcast-invalidations';
+    const options = {
+        namespace,
+        keys: ['resourceId'],
+        inMemoryCache: { enable: true, broadcastInvalidations: true },
+    } as const;
+
+    const cacheA = new SugarCache(new Redis({ port: 6379, host: '127.0.0.1' }), options);
+    const cacheB = new SugarCache(new Redis({ port: 6379, host: '127.0.0.1' }), options);
+
+    // Pub/sub messages are delivered asynchronously
+    const waitForBroadcast = () => new Promise((resolve) => setTimeout(resolve, 100));
+
+    beforeAll(waitForBroadcast);
+
+    it('del on one instance evicts in-memory value on others', async () => {
+        await cacheB.set({ resourceId }, 'VALUE', 10000);
+        await cacheA.del({ resourceId });
+        await waitForBroadcast();
+
+        const result = await cacheB.get({ resourceId });
+        expect(result).toBeNull();
+    })
+
+    it('set on one instance evicts stale in-memory value on others', async () => {
+        await cacheB.set({ resourceId }, 'STALE_VALUE', 10000);
+        await cacheA.set({ resourceId }, 'FRESH_VALUE', 10000);
+        await waitForBroadcast();
+
+        const result = await cacheB.get({ resourceId });
+        expect(result).toStrictEqual('FRESH_VALUE');
+    })
+
+    it('clear on one instance clears in-memory values on others', async () => {
+        await cacheB.set({ resourceId }, 'VALUE', 10000);
+        await cacheA.clear();
+        await waitForBroadcast();
+
+        const result = await cacheB.get({ resourceId });
+        expect(result).toBeNull();
+    })
+})
+
+describe('Stale-while-revalidate', () => {
+    const cache = new SugarCache(redis, {
+        namespace: 'stale-while-revalidate',
+        keys: ['resourceId'],
+    });
+
+    const freshTTL = 100;
+
+    let executions = 0;
+
+    class Controller {
+        @cache.memoize({ ttl: 5000, freshTTL })
+        async get(resourceId: string) {
+            executions += 1;
+            await new Promise((resolve) => setTimeout(resolve, 100));
+            return executions;
+        }
+    }
+    const controller = new Controller();
+
+    it('Stale value is returned immediately and refreshed in background', async () => {
+        await cache.clear();
+
+        expect(await controller.get(resourceId)).toStrictEqual(1);
+        await new Promise((resolve) => setTimeout(resolve, 1.1 * freshTTL));
+
+        // Stale value is served while the function is re-run
+        expect(await controller.get(resourceId)).toStrictEqual(1);
+        expect(await controller.get(resourceId)).toStrictEqual(1);
+
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        expect(await controller.get(resourceId)).toStrictEqual(2);
+        expect(executions).toStrictEqual(2);
+    })
+})
+
+describe('Bounded in-memory cache', () => {
+    const maxEntries = 5;
+
+    const boundedCaches = (['lru', 'lfu', 'tinylfu'] as const).map((evictionPolicy) => new SugarCache(redis, {
+        namespace: `bounded-${evictionPolicy}`,
+        keys: ['resourceId'],
+        inMemoryCache: { maxEntries, evictionPolicy },
+    }));
+
+    it.each(boundedCaches)('Entries are evicted instead of growing past the bound', async (cache) => {
+        await cache.clear();
+        const keys = [...Array(2 * maxEntries).keys()].map((idx) => ({ resourceId: `${idx}` }));
+
+        await cache.mset(keys, keys.map((_, idx) => idx), 5000);
+
+        const stats = cache.inMemoryStats();
+        expect(stats.entries).toStrictEqual(maxEntries);
+        expect(stats.evictions).toStrictEqual(maxEntries);
+
+        // Evicted values are still served from redis
+        expect(await cache.mget(keys)).toStrictEqual(keys.map((_, idx) => idx));
+        await cache.clear();
+    })
+
+    // NOTE: Memory is the only layer, so evicted keys can't be served from elsewhere
+    const memoryOnlyCache = (inMemoryCache: InMemoryCacheOptions) => new SugarCache(null, {
+        namespace: 'bounded-memory-only',
+        keys: ['resourceId'],
+        inMemoryCache,
+    });
+
+    const presentKeys = async (cache: SugarCache, resourceIds: string[]) => {
+        const values = await cache.mget(resourceIds.map((id) => ({ resourceId: id })));
+        return resourceIds.filter((_, idx) => values[idx] !== null);
+    };
+
+    it('LRU evicts the least recently used key', async () => {
+        const cache = memoryOnlyCache({ maxEntries: 3, evictionPolicy: 'lru' });
+        await cache.mset(['a', 'b', 'c'].map((id) => ({ resourceId: id })), ['A', 'B', 'C'], 5000);
+        await cache.get({ resourceId: 'a' });
+
+        await cache.set({ resourceId: 'd' }, 'D', 5000);
+
+        expect(await presentKeys(cache, ['a', 'b', 'c', 'd'])).toStrictEqual(['a', 'c', 'd']);
+        await cache.close();
+    })
+
+    it('LFU evicts the least frequently used key, breaking ties by recency', async () => {
+        const cache = memoryOnlyCache({ maxEntries: 3, evictionPolicy: 'lfu' });
+        await cache.mset(['a', 'b', 'c'].map((id) => ({ resourceId: id })), ['A', 'B', 'C'], 5000);
+        await cache.get({ resourceId: 'a' });
+        await cache.get({ resourceId: 'a' });
+        await cache.get({ resourceId: 'b' });
+        await cache.get({ resourceId: 'c' });
+
+        // LRU would evict `a`, which is the least recently used
+        await cache.set({ resourceId: 'd' }, 'D', 5000);
+
+        expect(await presentKeys(cache, ['a', 'b', 'c', 'd'])).toStrictEqual(['a', 'c', 'd']);
+        await cache.close();
+    })
+
+    it('W-TinyLFU keeps popular keys over keys used once', async () => {
+        const cache = memoryOnlyCache({ maxEntries: 3, evictionPolicy: 'tinylfu' });
+        await cache.mset(['a', 'b', 'c'].map((id) => ({ resourceId: id })), ['A', 'B', 'C'], 5000);
+        await Promise.all([...Array(5).keys()].map(() => cache.get({ resourceId: 'a' })));
+
+        // `c` overflows from the admission window and loses against `b`, which LRU would evict
+        await cache.set({ resourceId: 'd' }, 'D', 5000);
+
+        expect(await presentKeys(cache, ['a', 'b', 'c', 'd'])).toStrictEqual(['a', 'b', 'd']);
+        await cache.close();
+    })
+
+    it('Entries are evicted to stay within maxSize', async () => {
+        const maxSize = 1000;
+        const cache = memoryOnlyCache({ maxSize });
+        const value = 'x'.repeat(400);
+
+        await cache.set({ resourceId: 'a' }, value, 5000);
+        await cache.set({ resourceId: 'b' }, value, 5000);
+        expect(cache.inMemoryStats().entries).toStrictEqual(2);
+
+        await cache.set({ resourceId: 'c' }, value, 5000);
+        expect(await presentKeys(cache, ['a', 'b', 'c'])).toStrictEqual(['b', 'c']);
+        expect(cache.inMemoryStats().size).toBeLessThanOrEqual(maxSize);
+        expect(cache.inMemoryStats().evictions).toStrictEqual(1);
+
+        // Entries larger than the whole cache are never kept
+        await cache.set({ resourceId: 'd' }, 'x'.repeat(2 * maxSize), 5000);
+        expect(await cache.get({ resourceId: 'd' })).toBeNull();
+        expect(cache.inMemoryStats().size).toBeLessThanOrEqual(maxSize);
+        await cache.close();
+    })
+})
+
+describe('In-memory expiry', () => {
+    const cache = new SugarCache(redis, {
+        namespace: 'in-memory-expiry',
+        keys: ['resourceId'],
+        inMemoryCache: { sweepInterval: 20 },
+    });
+
+    const lowTTLForExpiry = 50;
+
+    afterAll(() => cache.close());
+
+    it('Overwritten values are not expired by the TTL they were first set with', async () => {
+        await cache.set({ resourceId }, 'OLD_VALUE', { memory: lowTTLForExpiry, redis: lowTTLForExpiry });
+        await cache.set({ resourceId }, 'NEW_VALUE', { memory: 5000, redis: lowTTLForExpiry });
+
+        await new Promise((resolve) => setTimeout(resolve, 5 * lowTTLForExpiry));
+
+        // Redis value has expired, so this can only be served from memory
+        const result = await cache.get({ resourceId });
+        expect(result).toStrictEqual('NEW_VALUE');
+    })
+
+    it('Expired values are swept from memory', async () => {
+        await cache.set({ resourceId }, 'VALUE', lowTTLForExpiry);
+        expect(cache.inMemoryStats().entries).toStrictEqual(1);
+
+        await new Promise((resolve) => setTimeout(resolve, 5 * lowTTLForExpiry));
+        expect(cache.inMemoryStats().entries).toStrictEqual(0);
+    })
+})
+
+describe('In-memory backfill', () => {
+    const writer = new SugarCache(redis, {
+        namespace: 'backfill',
+        keys: ['resourceId'],
+        inMemoryCache: { enable: false },
+    });
+    const reader = new SugarCache(redis, {
+        namespace: 'backfill',
+        keys: ['resourceId'],
+        inMemoryCache: { backfill: { ttl: 5000 } },
+    });
+    const memoizingReader = new SugarCache(redis, {
+        namespace: 'backfill',
+        keys: ['resourceId'],
+    });
+
+    beforeEach(async () => {
+        await reader.clear();
+    });
+
+    afterAll(() => Promise.all([reader.close(), memoizingReader.close()]));
+
+    it('Values read from redis are written into memory', async () => {
+        await writer.set({ resourceId }, 'VALUE', 5000);
+
+        expect(await reader.mget([{ resourceId }])).toStrictEqual(['VALUE']);
+        expect(reader.inMemoryStats().entries).toStrictEqual(1);
+
+        await redis.del(`sugar-cache:backfill:${resourceId}`);
+        expect(await reader.get({ resourceId })).toStrictEqual('VALUE');
+    })
+
+    it('Backfilled values expire from memory along with redis', async () => {
+        await writer.set({ resourceId }, 'VALUE', 100);
+
+        expect(await reader.get({ resourceId })).toStrictEqual('VALUE');
+
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        expect(await reader.get({ resourceId })).toBeNull();
+    })
+
+    it('memoize can enable backfilling for a single function', async () => {
+        class Controller {
+            @memoizingReader.memoize({ ttl: 5000, backfill: true })
+            async getResource(resourceId: string) {
+                return `computed-${resourceId}`;
+            }
+        }
+
+        await writer.set({ resourceId }, 'VALUE', 5000);
+
+        expect(await new Controller().getResource(resourceId)).toStrictEqual('VALUE');
+        expect(memoizingReader.inMemoryStats().entries).toStrictEqual(1);
+    })
+})
+
+describe('Sliding expiration', () => {
+    const slidingTTL = 300;
+    const maxLifetime = 1000;
+    const cache = new SugarCache(redis, {
+        namespace: 'sliding-expiration',
+        keys: ['resourceId'],
+        inMemoryCache: { maxEntries: 100 },
+        slidingExpiration: { ttl: slidingTTL, maxLifetime },
+    });
+
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    beforeEach(async () => {
+        await cache.clear();
+    });
+
+    afterAll(() => cache.close());
+
+    it('Reads extend the expiry of values in memory and redis', async () => {
+        await cache.set({ resourceId }, 'VALUE', slidingTTL);
+
+        // Reads at intervals shorter than the TTL, for longer than the TTL
+        await [1, 2, 3].reduce(async (previous) => {
+            await previous;
+            await sleep(slidingTTL / 2);
+            expect(await cache.get({ resourceId })).toStrictEqual('VALUE');
+        }, Promise.resolve());
+
+        // Expiry is extended on redis in the background
+        await sleep(20);
+        expect(await redis.pttl(`sugar-cache:sliding-expiration:${resourceId}`)).toBeGreaterThan(slidingTTL / 2);
+    })
+
+    it('Values expire once reads stop', async () => {
+        await cache.set({ resourceId }, 'VALUE', slidingTTL);
+        expect(await cache.get({ resourceId })).toStrictEqual('VALUE');
+
+        await sleep(2 * slidingTTL);
+        expect(await cache.get({ resourceId })).toBeNull();
+    })
+
+    it('Reads don\'t extend the expiry beyond the maximum lifetime', async () => {
+        await cache.set({ resourceId }, 'VALUE', slidingTTL);
+
+        const readUntil = Date.now() + maxLifetime + slidingTTL;
+        const readRepeatedly = async (): Promise<void> => {
+            await cache.get({ resourceId });
+            await sleep(slidingTTL / 3);
+            if (Date.now() < readUntil) {
+                await readRepeatedly();
+            }
+        };
+        await readRepeatedly();
+
+        expect(await cache.get({ resourceId })).toBeNull();
+    })
+})
+
+describe('Storage layers', () => {
+    // Stand-in for a remote tier, like memcached
+    const createMapLayer = (name: string): StorageAdapter & { entries: Map<string, CacheEntry> } => {
+        const entries = new Map<string, CacheEntry>();
+        return {
+            name,
+            shared: true,
+            entries,
+            get: (keys) => entries.get(keys.join(':')) ?? null,
+            set: (keys, entry) => { entries.set(keys.join(':'), entry); },
+            del: (keys) => { entries.delete(keys.join(':')); },
+            batchGet: (keys) => keys.map((key) => entries.get(key.join(':')) ?? null),
+            batchSet: (keys, values) => keys.forEach((key, idx) => entries.set(key.join(':'), values[idx])),
+            batchDel: (keys) => keys.forEach((key) => entries.delete(key.join(':'))),
+            clear: () => {
+                const cleared = entries.size;
+                entries.clear();
+                return cleared;
+            },
+        };
+    };
+
+    it('Values are only written to layers with a TTL', async () => {
+        const cache = new SugarCache(redis, {
+            namespace: 'memory-only-ttl',
+            keys: ['resourceId'],
+            inMemoryCache: { maxEntries: 100 },
+        });
+
+        await cache.set({ resourceId }, 'VALUE', { memory: 5000 });
+
+        expect(await cache.get({ resourceId })).toStrictEqual('VALUE');
+        expect(await redis.get(`sugar-cache:memory-only-ttl:${resourceId}`)).toBeNull();
+        await cache.close();
+    })
+
+    it('Reads go through custom layers in order, backfilling the ones above', async () => {
+        const mapLayer = createMapLayer('map');
+        const cache = new SugarCache(redis, {
+            namespace: 'custom-layers',
+            keys: ['resourceId'],
+            inMemoryCache: { backfill: { ttl: 5000 } },
+            layers: [memoryLayer({ maxEntries: 100 }), () => mapLayer, redisLayer(redis)],
+        });
+
+        await cache.set({ resourceId }, 'VALUE', { map: 5000, redis: 5000 });
+        expect(cache.inMemoryStats().entries).toStrictEqual(0);
+
+        expect(await cache.get({ resourceId })).toStrictEqual('VALUE');
+        expect(cache.inMemoryStats().entries).toStrictEqual(1);
+
+        await cache.del({ resourceId });
+        expect(mapLayer.entries.size).toStrictEqual(0);
+        expect(await cache.get({ resourceId })).toBeNull();
+        await cache.close();
+    })
+
+    it('Rejects invalidations that a layer doesn\'t support', async () => {
+        const cache = new SugarCache(redis, {
+            namespace: 'unsupported-invalidation',
+            keys: ['resourceId'],
+            layers: [memoryLayer(), () => createMapLayer('map')],
+        });
+
+        await expect(cache.invalidateTags(['tag'])).rejects.toThrow('Layer map does not support invalidateTags');
+        await cache.close();
+    })
+
+    it('Layer names must be unique', () => {
+        expect(() => new SugarCache(redis, {
+            namespace: 'duplicate-layers',
+            keys: ['resourceId'],
+            layers: [memoryLayer(), memoryLayer()],
+        })).toThrow('Layer names must be unique');
+    })
+})
@@ -0,0 +1,128 @@
+import Redis from 'ioredis';
+import SugarCache from '../lib/main';
+import CircuitBreaker from '../lib/cache/circuit-breaker';
+
+const resourceId = 'resource-UUID';
+
+const failingOperation = () => Promise.reject(new Error('Connection refused'));
+
+describe('Circuit breaker', () => {
+    it('Opens after consecutive failures and fails fast', async () => {
+        const breaker = new CircuitBreaker('breaker', { failureThreshold: 2, resetTimeout: 10000 });
+        const operation = jest.fn(failingOperation);
+
+        await expect(breaker.execute(operation)).rejects.toThrow('Connection refused');
+        await expect(breaker.execute(operation)).rejects.toThrow('Connection refused');
+        await expect(breaker.execute(operation)).rejects.toThrow('Circuit is open');
+
+        expect(operation).toHaveBeenCalledTimes(2);
+    })
+
+    it('Lets a single probe through once the reset timeout elapses', async () => {
+        const breaker = new CircuitBreaker('breaker', { failureThreshold: 1, resetTimeout: 50 });
+
+        await expect(breaker.execute(failingOperation)).rejects.toThrow('Connection refused');
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        let finishProbe: (_value: string) => void;
+        const probe = breaker.execute(() => new Promise<string>((resolve) => { finishProbe = resolve; }));
+        await expect(breaker.execute(async () => 'CONCURRENT')).rejects.toThrow('Circuit is open');
+
+        finishProbe('PROBE');
+        expect(await probe).toStrictEqual('PROBE');
+        expect(await breaker.execute(async () => 'CLOSED')).toStrictEqual('CLOSED');
+    })
+
+    it('Reopens when the probe fails', async () => {
+        const breaker = new CircuitBreaker('breaker', { failureThreshold: 3, resetTimeout: 50 });
+
+        await Promise.all([1, 2, 3].map(() => breaker.execute(failingOperation).catch(() => null)));
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        await expect(breaker.execute(failingOperation)).rejects.toThrow('Connection refused');
+        await expect(breaker.execute(async () => 'VALUE')).rejects.toThrow('Circuit is open');
+    })
+
+    it('Times out slow operations', async () => {
+        const breaker = new CircuitBreaker('breaker', { operationTimeout: 20 });
+        const slowOperation = () => new Promise((resolve) => setTimeout(resolve, 200));
+
+        await expect(breaker.execute(slowOperation)).rejects.toThrow('timed out');
+        await expect(breaker.execute(slowOperation, { timeout: false })).resolves.toBeUndefined();
+    })
+})
+
+describe('Fail-open', () => {
+    // Nothing listens on this port
+    const unavailableRedis = new Redis({
+        port: 6390,
+        host: '127.0.0.1',
+        lazyConnect: true,
+        enableOfflineQueue: false,
+        maxRetriesPerRequest: 0,
+    });
+
+    const cache = new SugarCache(unavailableRedis, {
+        namespace: 'fail-open',
+        keys: ['resourceId'],
+        inMemoryCache: { maxEntries: 100 },
+        failOpen: true,
+        circuitBreaker: { failureThreshold: 1, operationTimeout: 100 },
+    });
+
+    const strictCache = new SugarCache(unavailableRedis, {
+        namespace: 'fail-closed',
+        keys: ['resourceId'],
+    });
+
+    afterAll(async () => {
+        await cache.close();
+        unavailableRedis.disconnect();
+    });
+
+    it('Serves values from memory when redis is unavailable', async () => {
+        await cache.set({ resourceId }, 'VALUE', 10000);
+
+        expect(await cache.get({ resourceId })).toStrictEqual('VALUE');
+        expect(await cache.mget([{ resourceId }, { resourceId: 'missing' }])).toStrictEqual(['VALUE', null]);
+    })
+
+    it('Calls memoized functions directly when redis is unavailable', async () => {
+        class Controller {
+            @cache.memoize({ ttl: 10000, lock: { timeout: 1000, waitTimeout: 1000 } })
+            async getResource(resourceId: string) {
+                return `computed-${resourceId}`;
+            }
+        }
+
+        expect(await new Controller().getResource('other-resource')).toStrictEqual('computed-other-resource');
+    })
+
+    it('Still throws on invalidations', async () => {
+        await expect(cache.del({ resourceId })).rejects.toThrow();
+    })
+
+    it('Throws redis errors when not failing open', async () => {
+        await expect(strictCache.set({ resourceId }, 'VALUE', 10000)).rejects.toThrow();
+    })
+
+    it('Throws redis errors on batched operations when not failing open', async () => {
+        const keys = [{ resourceId }, { resourceId: 'other-resource' }];
+
+        await expect(strictCache.mset(keys, ['VALUE', 'OTHER_VALUE'], 10000)).rejects.toThrow();
+        await expect(strictCache.mget(keys)).rejects.toThrow();
+        await expect(strictCache.mdel(keys)).rejects.toThrow();
+    })
+
+    it('Batched operations failing on redis open the circuit', async () => {
+        const breakingCache = new SugarCache(unavailableRedis, {
+            namespace: 'fail-closed-breaker',
+            keys: ['resourceId'],
+            circuitBreaker: { failureThreshold: 1, resetTimeout: 10000 },
+        });
+
+        await expect(breakingCache.mset([{ resourceId }], ['VALUE'], 10000)).rejects.toThrow();
+        await expect(breakingCache.mget([{ resourceId }])).rejects.toThrow('Circuit is open');
+        await breakingCache.close();
+    })
+})
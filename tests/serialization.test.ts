@@ -0,0 +1,75 @@
+import Redis from 'ioredis';
+import SugarCache from '../lib/main';
+import {
+    CompressionOptions,
+    jsonSerializer,
+    msgpackSerializer,
+    Serializer,
+    typedJsonSerializer,
+} from '../lib';
+
+describe('Serializers', () => {
+    const redis = new Redis({
+        port: 6379,
+        host: '127.0.0.1',
+    });
+
+    const namespace = 'serializers';
+
+    const value = {
+        createdAt: new Date('2023-01-01T00:00:00.000Z'),
+        counts: new Map([['foo', 1]]),
+        tags: new Set(['bar']),
+        id: BigInt('9007199254740993'),
+        description: 'baz'.repeat(1000),
+    };
+
+    const cacheWithSerializer = (options: {
+        serializer: Serializer,
+        compression?: CompressionOptions,
+    }) => new SugarCache(redis, {
+        namespace,
+        keys: ['resourceId'],
+        // Disabled so values are always read back from redis
+        inMemoryCache: { enable: false },
+        ...options,
+    });
+
+    it.each([
+        ['typed JSON', typedJsonSerializer],
+        ['MessagePack', msgpackSerializer],
+    ])('%s preserves value types', async (_, serializer) => {
+        const cache = cacheWithSerializer({ serializer });
+        await cache.set({ resourceId: 'foo' }, value, 5000);
+
+        const storedValue = await cache.get({ resourceId: 'foo' });
+        expect(storedValue).toStrictEqual(value);
+    });
+
+    it.each(['gzip', 'brotli'] as const)('values above threshold are compressed with %s', async (algorithm) => {
+        const cache = cacheWithSerializer({
+            serializer: msgpackSerializer,
+            compression: { algorithm, threshold: 100 },
+        });
+        await cache.set({ resourceId: 'foo' }, value, 5000);
+
+        const storedSize = await redis.strlen(`sugar-cache:${namespace}:foo`);
+        expect(storedSize).toBeLessThan(value.description.length);
+
+        const storedValue = await cache.get({ resourceId: 'foo' });
+        expect(storedValue).toStrictEqual(value);
+    });
+
+    it('values written with a different serializer can be read', async () => {
+        const writer = cacheWithSerializer({
+            serializer: msgpackSerializer,
+            compression: { algorithm: 'brotli' },
+        });
+        const reader = cacheWithSerializer({ serializer: jsonSerializer });
+
+        await writer.set({ resourceId: 'foo' }, value, 5000);
+
+        const storedValue = await reader.get({ resourceId: 'foo' });
+        expect(storedValue).toStrictEqual(value);
+    });
+});
@@ -0,0 +1,17 @@
+import calculateSlot from '../lib/cache/slots';
+
+describe('Cluster slots', () => {
+    it('Matches the slots computed by redis', () => {
+        // NOTE: As reported by `CLUSTER KEYSLOT`
+        expect(calculateSlot('foo')).toStrictEqual(12182);
+        expect(calculateSlot('somekey')).toStrictEqual(11058);
+        expect(calculateSlot('hello')).toStrictEqual(866);
+        expect(calculateSlot('123456789')).toStrictEqual(12739);
+    })
+
+    it('Only hashes the hashtag of keys', () => {
+        expect(calculateSlot('{user1000}.following')).toStrictEqual(3443);
+        expect(calculateSlot('{user1000}.followers')).toStrictEqual(3443);
+        expect(calculateSlot('sugar-cache:users:{foo}:bar')).toStrictEqual(calculateSlot('foo'));
+    })
+})
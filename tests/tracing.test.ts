@@ -0,0 +1,92 @@
+import {
+    BasicTracerProvider,
+    InMemorySpanExporter,
+    SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import SugarCache from '../lib/main';
+import { FakeRedis, memoryLayer } from '../lib';
+
+const resourceId = 'resource-UUID';
+
+describe('Tracing', () => {
+    const exporter = new InMemorySpanExporter();
+    const provider = new BasicTracerProvider();
+    provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+    const tracer = provider.getTracer('sugar-cache-tests');
+
+    const spans = () => exporter.getFinishedSpans().map(({ name, attributes, status }) => ({
+        name,
+        attributes,
+        status: status.code,
+    }));
+
+    beforeEach(() => exporter.reset());
+
+    afterAll(() => provider.shutdown());
+
+    it('Traces cache operations', async () => {
+        const cache = new SugarCache(null, {
+            namespace: 'tracing',
+            keys: ['resourceId'],
+            inMemoryCache: { maxEntries: 100, maxSize: 100000 },
+            tracer,
+        });
+
+        await cache.set({ resourceId }, 'VALUE', 10000);
+        await cache.mget([{ resourceId }, { resourceId: 'missing' }]);
+        await cache.del({ resourceId });
+        await cache.clear();
+
+        const [set, mget, del, clear] = spans();
+        expect(set.name).toStrictEqual('sugarcache.set');
+        expect(set.attributes['sugarcache.namespace']).toStrictEqual('sugar-cache:tracing');
+        expect(set.attributes['sugarcache.key_count']).toStrictEqual(1);
+        expect(set.attributes['sugarcache.payload_size']).toBeGreaterThan(0);
+
+        expect(mget.name).toStrictEqual('sugarcache.mget');
+        expect(mget.attributes).toMatchObject({
+            'sugarcache.key_count': 2,
+            'sugarcache.hits': 1,
+            'sugarcache.hit_layers': ['memory'],
+            'sugarcache.payload_size': set.attributes['sugarcache.payload_size'],
+        });
+
+        expect(del.name).toStrictEqual('sugarcache.del');
+        expect(clear.name).toStrictEqual('sugarcache.clear');
+        await cache.close();
+    })
+
+    it('Traces memoized executions and failed operations', async () => {
+        const fakeRedis = new FakeRedis();
+        const cache = new SugarCache(null, {
+            namespace: 'tracing-memoize',
+            keys: ['resourceId'],
+            layers: [memoryLayer({ maxEntries: 100 }), fakeRedis.layer()],
+            tracer,
+        });
+
+        class Controller {
+            @cache.memoize({ ttl: 10000 })
+            async getResource(resourceId: string) {
+                return `computed-${resourceId}`;
+            }
+        }
+        await new Controller().getResource(resourceId);
+
+        expect(spans().map(({ name }) => name)).toStrictEqual([
+            'sugarcache.get',
+            'sugarcache.memoized_execution',
+            'sugarcache.set',
+        ]);
+        expect(spans()[1].attributes['sugarcache.function']).toStrictEqual('getResource');
+        // Sizes of values written to the fake redis layer are recorded
+        expect(spans()[2].attributes['sugarcache.payload_size']).toBeGreaterThan(0);
+
+        exporter.reset();
+        fakeRedis.fail();
+        await expect(cache.get({ resourceId: 'missing' })).rejects.toThrow('Connection is closed');
+        // NOTE: SpanStatusCode.ERROR
+        expect(spans()).toMatchObject([{ name: 'sugarcache.get', status: 2 }]);
+        await cache.close();
+    })
+})